@@ -0,0 +1,21 @@
+import Link from 'next/link';
+import { WalletButton } from '@/components/wallet-button';
+import { DeployTokenWizard } from '@/components/DeployTokenWizard';
+
+export default function DeployPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center p-24">
+      <div className="max-w-2xl w-full">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold">Deploy a Token</h1>
+          <WalletButton />
+        </div>
+        <p className="text-lg text-gray-600 dark:text-gray-400 mb-8">
+          Deploy an ERC-20 Stylus token signed by your wallet. <Link href="/" className="underline">Back home</Link>
+        </p>
+
+        <DeployTokenWizard />
+      </div>
+    </main>
+  );
+}
@@ -1,4 +1,6 @@
+import Link from 'next/link';
 import { WalletButton } from '@/components/wallet-button';
+import { TokenWatchlist } from '@/components/TokenWatchlist';
 
 export default function Home() {
   return (
@@ -14,6 +16,20 @@ export default function Home() {
         <div className="flex justify-center">
           <WalletButton />
         </div>
+
+        <div className="mt-12">
+          <TokenWatchlist />
+        </div>
+
+        <div className="mt-8">
+          <Link href="/tokens" className="text-blue-500 hover:underline">
+            Browse registered tokens
+          </Link>
+          <span className="mx-2 text-gray-500">&middot;</span>
+          <Link href="/deploy" className="text-blue-500 hover:underline">
+            Deploy a token
+          </Link>
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,32 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { isAddress } from 'viem';
+import { WalletButton } from '@/components/wallet-button';
+import { NetworkTokenPanel } from '@/components/NetworkTokenPanel';
+
+interface TokenPageProps {
+  params: { network: string; address: string };
+}
+
+export default function TokenPage({ params }: TokenPageProps) {
+  const { network, address } = params;
+  // The network is checked in the browser, where networks registered at runtime are stored
+  if (!isAddress(address)) {
+    notFound();
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-24">
+      <div className="max-w-2xl w-full">
+        <div className="flex items-center justify-between mb-8">
+          <Link href="/" className="text-sm text-gray-600 dark:text-gray-400 hover:underline">
+            &larr; Watchlist
+          </Link>
+          <WalletButton />
+        </div>
+
+        <NetworkTokenPanel contractAddress={address} network={network} />
+      </div>
+    </main>
+  );
+}
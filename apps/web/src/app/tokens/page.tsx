@@ -0,0 +1,21 @@
+import Link from 'next/link';
+import { WalletButton } from '@/components/wallet-button';
+import { FactoryTokenList } from '@/components/FactoryTokenList';
+
+export default function TokensPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center p-24">
+      <div className="max-w-5xl w-full">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold">Tokens</h1>
+          <WalletButton />
+        </div>
+        <p className="text-lg text-gray-600 dark:text-gray-400 mb-8">
+          Tokens registered in the ERC-20 factory. <Link href="/" className="underline">Back home</Link>
+        </p>
+
+        <FactoryTokenList />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+/**
+ * ERC-20 Allowance Manager
+ */
+
+import { useState } from 'react';
+import type { Address } from 'viem';
+import {
+  useTokenAllowances,
+  formatTokenAmount,
+  type SupportedNetwork,
+  type UseERC20InteractionsReturn,
+} from '@cradle/erc20-stylus';
+import { FeePreviewDialog, type FeePreviewRequest } from './FeePreviewDialog';
+
+interface AllowanceManagerProps {
+  token: UseERC20InteractionsReturn;
+  contractAddress: Address;
+  network: SupportedNetwork;
+  account: Address;
+  decimals: number;
+  symbol: string;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+export function AllowanceManager({ token, contractAddress, network, account, decimals, symbol }: AllowanceManagerProps) {
+  const { allowances, refetch } = useTokenAllowances({ contractAddress, network, owner: account });
+  const [editing, setEditing] = useState<Address | null>(null);
+  const [editAmount, setEditAmount] = useState('');
+  const [preview, setPreview] = useState<FeePreviewRequest | null>(null);
+  const entries = allowances.status === 'success' ? allowances.data : [];
+  // Each spender is only blocked by its own pending approval
+  const isBusy = (spender: Address) => token.isWrongNetwork || token.isOperationPending(`allowance:${spender}`);
+
+  // Show the fee preview first; the wallet opens once it is confirmed
+  const handleRevoke = (spender: Address) => {
+    setPreview({
+      title: 'Revoke approval',
+      description: `Set the allowance of ${spender} to 0 ${symbol}`,
+      estimate: () => token.estimateApprove(spender, '0'),
+      send: async () => {
+        await token.revoke(spender, { requestId: `allowance:${spender}` });
+        refetch();
+      },
+    });
+  };
+
+  const handleSave = (spender: Address) => {
+    if (!editAmount) return;
+    const amount = editAmount;
+    setPreview({
+      title: 'Change approval',
+      description: `Allow ${spender} to spend ${amount} ${symbol}`,
+      estimate: () => token.estimateApprove(spender, amount),
+      send: async () => {
+        await token.safeApprove(spender, amount, { requestId: `allowance:${spender}` });
+        setEditing(null);
+        setEditAmount('');
+        refetch();
+      },
+    });
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg">
+      <h4 className="text-sm font-medium text-white mb-3">Approvals</h4>
+
+      {allowances.status === 'loading' && (
+        <p className="text-sm text-gray-400">Loading approvals...</p>
+      )}
+
+      {allowances.status === 'error' && (
+        <p className="text-sm text-red-400">{allowances.error.message}</p>
+      )}
+
+      {allowances.status === 'success' && entries.length === 0 && (
+        <p className="text-sm text-gray-400">No active approvals.</p>
+      )}
+
+      <div className="space-y-3">
+        {entries.map((entry) => (
+          <div key={entry.spender} className="text-sm border-t border-gray-700 pt-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-mono text-gray-300" title={entry.spender}>{shorten(entry.spender)}</span>
+              {entry.isUnlimited ? (
+                <span className="px-2 py-0.5 text-xs bg-red-500/10 border border-red-500/30 rounded text-red-400">
+                  Unlimited
+                </span>
+              ) : (
+                <span className="text-gray-400">{formatTokenAmount(entry.allowance, decimals)} {symbol}</span>
+              )}
+            </div>
+
+            {editing === entry.spender ? (
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="text"
+                  placeholder="New allowance"
+                  value={editAmount}
+                  onChange={(e) => setEditAmount(e.target.value)}
+                  className="flex-1 px-3 py-1 text-sm bg-gray-900 border border-gray-700 rounded text-white"
+                />
+                <button
+                  onClick={() => handleSave(entry.spender)}
+                  disabled={isBusy(entry.spender) || !editAmount}
+                  className="px-3 py-1 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="px-3 py-1 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => {
+                    setEditing(entry.spender);
+                    setEditAmount('');
+                  }}
+                  disabled={isBusy(entry.spender)}
+                  className="px-3 py-1 text-xs font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleRevoke(entry.spender)}
+                  disabled={isBusy(entry.spender)}
+                  className="px-3 py-1 text-xs font-medium bg-red-600 hover:bg-red-700 text-white rounded disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <p className="mt-3 text-xs text-gray-500">
+          Changing a non-zero allowance first resets it to zero, so two wallet confirmations may be needed.
+        </p>
+      )}
+
+      {preview && (
+        <FeePreviewDialog request={preview} onClose={() => setPreview(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * ERC-20 Batch Transfer (Airdrop) Panel
+ */
+
+import { useState, type ChangeEvent } from 'react';
+import type { Address } from 'viem';
+import { useBatchTransfer, type SupportedNetwork } from '@cradle/erc20-stylus';
+
+interface BatchTransferPanelProps {
+  contractAddress: Address;
+  network: SupportedNetwork;
+  symbol: string;
+  disabled?: boolean;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const STATUS_STYLES = {
+  pending: 'text-gray-400',
+  sent: 'text-yellow-400',
+  confirmed: 'text-green-400',
+  failed: 'text-red-400',
+} as const;
+
+export function BatchTransferPanel({ contractAddress, network, symbol, disabled = false }: BatchTransferPanelProps) {
+  const batch = useBatchTransfer({ contractAddress, network });
+  const [input, setInput] = useState('');
+
+  const confirmed = batch.results.filter((result) => result.status === 'confirmed').length;
+  const hasProgress = batch.results.some((result) => result.status !== 'pending');
+  const canRun = !disabled && !batch.isRunning && batch.rows.length > 0 && !batch.summary?.exceedsBalance;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    e.target.value = '';
+  };
+
+  const handleValidate = async () => {
+    try {
+      await batch.parse(input);
+    } catch (error) {
+      console.error('Batch parse failed:', error);
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      await batch.run();
+    } catch (error) {
+      console.error('Batch transfer failed:', error);
+    }
+  };
+
+  const handleDownload = (format: 'csv' | 'json') => {
+    const blob = new Blob([batch.exportReport(format)], {
+      type: format === 'csv' ? 'text/csv' : 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `batch-${symbol.toLowerCase()}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg">
+      <h4 className="text-sm font-medium text-white mb-3">Batch Transfer</h4>
+
+      <textarea
+        placeholder={'address,amount\n0x...,100'}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        rows={5}
+        className="w-full px-3 py-2 font-mono text-xs bg-gray-900 border border-gray-700 rounded-lg text-white"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <label className="px-3 py-1 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded cursor-pointer">
+          Upload CSV/JSON
+          <input type="file" accept=".csv,.json,.txt" onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          onClick={handleValidate}
+          disabled={!input.trim() || batch.isRunning}
+          className="px-3 py-1 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+        >
+          Validate
+        </button>
+        <button
+          onClick={() => {
+            batch.reset();
+            setInput('');
+          }}
+          disabled={batch.isRunning}
+          className="px-3 py-1 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {batch.parseErrors.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-red-400">
+          {batch.parseErrors.map((error) => (
+            <li key={error.line}>Line {error.line}: {error.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {batch.summary && (
+        <div className="mt-3 text-sm space-y-1">
+          <p className="text-gray-300">
+            {batch.summary.count} transfers, {batch.summary.formattedTotal} {symbol} total
+            {batch.summary.remaining !== batch.summary.total && (
+              <>, {batch.summary.formattedRemaining} {symbol} left to send</>
+            )}
+          </p>
+          {batch.summary.exceedsBalance && (
+            <p className="text-red-400">The transfers left to send exceed your balance.</p>
+          )}
+        </div>
+      )}
+
+      {batch.rows.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {batch.isRunning ? (
+            <button
+              onClick={batch.stop}
+              className="px-3 py-1 text-sm font-medium bg-red-600 hover:bg-red-700 text-white rounded"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!canRun}
+              className="px-3 py-1 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+            >
+              {hasProgress ? 'Resume' : 'Send'} ({confirmed}/{batch.rows.length})
+            </button>
+          )}
+          {hasProgress && (
+            <>
+              <button
+                onClick={() => handleDownload('csv')}
+                className="px-3 py-1 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded"
+              >
+                Report CSV
+              </button>
+              <button
+                onClick={() => handleDownload('json')}
+                className="px-3 py-1 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded"
+              >
+                Report JSON
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {batch.error && (
+        <p className="mt-3 text-sm text-red-400">{batch.error.message}</p>
+      )}
+
+      {hasProgress && (
+        <div className="mt-3 max-h-64 overflow-y-auto">
+          <table className="w-full text-xs">
+            <tbody>
+              {batch.results.map((result) => (
+                <tr key={result.index} className="border-t border-gray-700">
+                  <td className="py-1 text-gray-500">{result.index + 1}</td>
+                  <td className="py-1 font-mono text-gray-300" title={result.to}>{shorten(result.to)}</td>
+                  <td className="py-1 text-gray-300">{result.amount}</td>
+                  <td className={`py-1 ${STATUS_STYLES[result.status]}`} title={result.error}>
+                    {result.status}
+                  </td>
+                  <td className="py-1 font-mono text-gray-500">{result.hash ? shorten(result.hash) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-gray-500">
+        Transfers are sent one at a time. Progress is saved, so an interrupted batch resumes where it stopped.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+/**
+ * Token Deployment Wizard
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAccount, useSwitchChain } from 'wagmi';
+import {
+  useERC20Deploy,
+  getNetwork,
+  getNetworks,
+  getExplorerUrl,
+  validateDeployTokenParams,
+  type DeploymentStage,
+  type DeploymentStageProgress,
+  type SupportedNetwork,
+} from '@cradle/erc20-stylus';
+
+const DEPLOYMENT_API_URL = process.env.NEXT_PUBLIC_ERC20_DEPLOYMENT_API_URL;
+
+const STAGES: { stage: DeploymentStage; label: string }[] = [
+  { stage: 'deploying', label: 'Deploy contract' },
+  { stage: 'activating', label: 'Activate Stylus program' },
+  { stage: 'initializing', label: 'Initialize token' },
+  { stage: 'registering', label: 'Register in factory' },
+];
+
+const STAGE_STYLES = {
+  pending: 'text-gray-500',
+  running: 'text-yellow-400',
+  complete: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-400',
+} as const;
+
+const inputClass = 'w-full px-3 py-2 text-sm bg-gray-900 border border-gray-700 rounded text-white disabled:opacity-50';
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+export function DeployTokenWizard() {
+  const account = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const [network, setNetwork] = useState<SupportedNetwork>('arbitrum-sepolia');
+  const [name, setName] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [initialSupply, setInitialSupply] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const deploy = useERC20Deploy({ network, mode: 'wallet', deploymentApiUrl: DEPLOYMENT_API_URL });
+  const { deploymentState, isDeploying } = deploy;
+
+  const params = { name, symbol, initialSupply };
+  const errors = validateDeployTokenParams(params);
+  // Only flag a field once it has been filled in, or after a submit attempt
+  const errorFor = (field: string, value: string) =>
+    (submitted || value !== '') ? errors.find((error) => error.field === field)?.message : undefined;
+
+  const { chainId } = getNetwork(network);
+  const isWrongNetwork = account.chainId !== undefined && account.chainId !== chainId;
+  const hasFactory = !!getNetwork(network).factoryAddress;
+  const result = deploymentState.status === 'success' ? deploymentState.result : null;
+  const explorerUrl = getExplorerUrl(network);
+
+  const handleDeploy = () => {
+    setSubmitted(true);
+    if (errors.length > 0) return;
+    deploy.deployToken({ ...params, name: name.trim(), symbol: symbol.trim(), initialSupply: initialSupply.trim() })
+      .catch((error) => console.error('Deployment failed:', error));
+  };
+
+  const handleReset = () => {
+    deploy.reset();
+    setName('');
+    setSymbol('');
+    setInitialSupply('');
+    setSubmitted(false);
+    setCopied(false);
+  };
+
+  // Stages reported so far, with the rest pending; the current one runs until reported
+  const stages: DeploymentStageProgress[] = STAGES.map(({ stage }) =>
+    deploy.stages.find((s) => s.stage === stage)
+      ?? { stage, status: deploymentState.status === stage ? 'running' : 'pending' }
+  );
+
+  const envLine = result ? `NEXT_PUBLIC_TOKEN_ADDRESS=${result.tokenAddress}\nNEXT_PUBLIC_TOKEN_NETWORK=${network}` : '';
+
+  const copyEnvLine = () => {
+    navigator.clipboard.writeText(envLine)
+      .then(() => setCopied(true))
+      .catch((error) => console.error('Copy failed:', error));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Form */}
+      <div className="p-4 bg-gray-800 rounded-lg space-y-3">
+        <h4 className="text-sm font-medium text-white">Token Details</h4>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Network</label>
+          <select
+            value={network}
+            disabled={isDeploying}
+            onChange={(e) => setNetwork(e.target.value)}
+            className={inputClass}
+          >
+            {getNetworks().map((config) => (
+              <option key={config.network} value={config.network}>{config.name}</option>
+            ))}
+          </select>
+          {!hasFactory && (
+            <p className="mt-1 text-xs text-yellow-400">
+              No token factory on this network; the token will deploy but can&apos;t be registered.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Name</label>
+          <input
+            type="text"
+            placeholder="SuperPositionToken"
+            value={name}
+            disabled={isDeploying}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+          />
+          {errorFor('name', name) && <p className="mt-1 text-xs text-red-400">{errorFor('name', name)}</p>}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Symbol</label>
+            <input
+              type="text"
+              placeholder="SPT"
+              value={symbol}
+              disabled={isDeploying}
+              onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+              className={inputClass}
+            />
+            {errorFor('symbol', symbol) && <p className="mt-1 text-xs text-red-400">{errorFor('symbol', symbol)}</p>}
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Initial supply</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              placeholder="1000000"
+              value={initialSupply}
+              disabled={isDeploying}
+              onChange={(e) => setInitialSupply(e.target.value)}
+              className={inputClass}
+            />
+            {errorFor('initialSupply', initialSupply) && (
+              <p className="mt-1 text-xs text-red-400">{errorFor('initialSupply', initialSupply)}</p>
+            )}
+          </div>
+        </div>
+
+        {!account.address ? (
+          <p className="text-sm text-gray-400">Connect a wallet to deploy; it signs every transaction.</p>
+        ) : isWrongNetwork ? (
+          <button
+            onClick={() => switchChainAsync({ chainId }).catch((error) => console.error('Network switch failed:', error))}
+            className="w-full px-4 py-2 text-sm font-medium bg-yellow-600 hover:bg-yellow-700 text-white rounded"
+          >
+            Switch to {getNetwork(network).name}
+          </button>
+        ) : (
+          <button
+            onClick={handleDeploy}
+            disabled={isDeploying || !!result || (submitted && errors.length > 0)}
+            className="w-full px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+          >
+            {isDeploying ? 'Deploying...' : 'Deploy Token'}
+          </button>
+        )}
+      </div>
+
+      {/* Progress */}
+      {deploymentState.status !== 'idle' && (
+        <div className="p-4 bg-gray-800 rounded-lg">
+          <h4 className="text-sm font-medium text-white mb-2">Deployment</h4>
+          <ol className="space-y-1">
+            {stages.map((stage, index) => (
+              <li key={stage.stage} className="flex items-center justify-between text-sm">
+                <span className={STAGE_STYLES[stage.status]}>
+                  {index + 1}. {STAGES[index].label}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {stage.txHash && explorerUrl ? (
+                    <a href={`${explorerUrl}/tx/${stage.txHash}`} target="_blank" rel="noreferrer" className="hover:text-blue-400">
+                      {shorten(stage.txHash)}
+                    </a>
+                  ) : (
+                    stage.txHash ? shorten(stage.txHash) : stage.status
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          {deploymentState.status === 'error' && (
+            <div className="mt-3 flex items-center justify-between gap-2">
+              <p className="text-sm text-red-400">{deploymentState.error.message}</p>
+              <button onClick={deploy.reset} className="text-xs text-gray-400 hover:text-white">
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Result */}
+      {result && (
+        <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg space-y-3">
+          <p className="text-sm text-green-400">
+            Token deployed at <span className="font-mono">{result.tokenAddress}</span>
+          </p>
+          <Link
+            href={`/token/${network}/${result.tokenAddress}`}
+            className="inline-block text-sm text-blue-400 hover:underline"
+          >
+            Open token panel &rarr;
+          </Link>
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Add these to your .env file:</p>
+            <div className="flex items-center gap-2">
+              <pre className="flex-1 px-3 py-2 text-xs bg-gray-900 rounded text-white overflow-x-auto">{envLine}</pre>
+              <button
+                onClick={copyEnvLine}
+                className="px-3 py-2 text-xs font-medium bg-gray-700 hover:bg-gray-600 text-white rounded"
+              >
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          </div>
+          <button onClick={handleReset} className="text-xs text-gray-400 hover:text-white">
+            Deploy another token
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,37 +6,95 @@
 
 import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
-import { useERC20Interactions } from '@cradle/erc20-stylus';
-import type { Address } from 'viem';
+import {
+  useERC20Interactions,
+  getNetwork,
+  isSupportedNetwork,
+  subscribeNetworks,
+  type SupportedNetwork,
+} from '@cradle/erc20-stylus';
+import { isAddressEqual, type Address } from 'viem';
+import { TokenActivityTable } from './TokenActivityTable';
+import { TokenAdminPanel } from './TokenAdminPanel';
+import { AllowanceManager } from './AllowanceManager';
+import { BatchTransferPanel } from './BatchTransferPanel';
+import { FeePreviewDialog, type FeePreviewRequest } from './FeePreviewDialog';
+import { RecentTransactionsDrawer } from './RecentTransactionsDrawer';
+import { RpcStatus } from './RpcStatus';
 
 const TOKEN_ADDRESS = process.env.NEXT_PUBLIC_TOKEN_ADDRESS as Address;
+const TOKEN_NETWORK = process.env.NEXT_PUBLIC_TOKEN_NETWORK || 'arbitrum-sepolia';
 
-export function ERC20TokenPanel() {
+interface ERC20TokenPanelProps {
+  contractAddress?: Address;
+  network?: SupportedNetwork;
+}
+
+export function ERC20TokenPanel({
+  contractAddress = TOKEN_ADDRESS,
+  network = TOKEN_NETWORK,
+}: ERC20TokenPanelProps) {
+  const [supported, setSupported] = useState(() => isSupportedNetwork(network));
+
+  useEffect(() => {
+    const check = () => setSupported(isSupportedNetwork(network));
+    check();
+    return subscribeNetworks(check);
+  }, [network]);
+
+  // The token hooks need the network's config, so an unknown (or removed) network stops here
+  if (!supported) {
+    return (
+      <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+        <p className="text-sm text-red-400">
+          Unsupported network &quot;{network}&quot;. Register it with <code>registerNetwork()</code> first.
+        </p>
+      </div>
+    );
+  }
+
+  return <TokenPanel contractAddress={contractAddress} network={network} />;
+}
+
+function TokenPanel({ contractAddress, network }: Required<ERC20TokenPanelProps>) {
   const { address: userAddress } = useAccount();
   const [transferTo, setTransferTo] = useState('');
   const [transferAmount, setTransferAmount] = useState('');
+  const [preview, setPreview] = useState<FeePreviewRequest | null>(null);
 
   const token = useERC20Interactions({
-    contractAddress: TOKEN_ADDRESS,
-    network: 'arbitrum-sepolia',
+    contractAddress,
+    network,
     userAddress,
+    watch: true,
   });
 
   const tokenInfo = token.tokenInfo.status === 'success' ? token.tokenInfo.data : null;
   const balance = token.balance.status === 'success' ? token.balance.data : null;
+  const isOwner = !!userAddress && !!tokenInfo && isAddressEqual(userAddress, tokenInfo.owner);
 
-  const handleTransfer = async () => {
+  // Show the fee preview first; the wallet opens once it is confirmed
+  const handleTransfer = () => {
     if (!transferTo || !transferAmount) return;
-    try {
-      await token.transfer(transferTo as Address, transferAmount);
-      setTransferTo('');
-      setTransferAmount('');
-    } catch (error) {
-      console.error('Transfer failed:', error);
-    }
+    const to = transferTo as Address;
+    const amount = transferAmount;
+    setPreview({
+      title: 'Transfer',
+      description: `${amount} ${tokenInfo?.symbol ?? ''} to ${to}`,
+      estimate: () => token.estimateTransfer(to, amount),
+      send: async () => {
+        await token.transfer(to, amount, { requestId: 'transfer' });
+        setTransferTo('');
+        setTransferAmount('');
+      },
+    });
   };
 
-  if (!TOKEN_ADDRESS) {
+  const isSending = token.isOperationPending('transfer');
+
+  const networkName = getNetwork(network).name;
+
+  if (!contractAddress) {
     return (
       <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
         <p className="text-sm text-yellow-400">
@@ -51,15 +109,28 @@ export function ERC20TokenPanel() {
       {/* Token Info */}
       <div className="p-4 bg-gray-800 rounded-lg">
         <h3 className="text-lg font-semibold text-white mb-2">
-          {tokenInfo?.name || 'SuperPositionToken'} ({tokenInfo?.symbol || 'SPT'})
+          {tokenInfo ? `${tokenInfo.name} (${tokenInfo.symbol})` : 'Loading...'}
         </h3>
         <div className="space-y-1 text-sm text-gray-400">
           <p>Total Supply: {tokenInfo?.formattedTotalSupply || '...'}</p>
           <p>Your Balance: {balance?.formatted || '0'}</p>
-          <p className="text-xs font-mono truncate">{TOKEN_ADDRESS}</p>
+          <p className="text-xs font-mono truncate">{contractAddress}</p>
         </div>
       </div>
 
+      {/* Network Mismatch */}
+      {token.isWrongNetwork && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-center justify-between gap-2">
+          <p className="text-sm text-yellow-400">Your wallet is on a different network.</p>
+          <button
+            onClick={() => token.switchNetwork().catch((error) => console.error('Network switch failed:', error))}
+            className="px-3 py-1 text-sm font-medium bg-yellow-600 hover:bg-yellow-700 text-white rounded"
+          >
+            Switch to {networkName}
+          </button>
+        </div>
+      )}
+
       {/* Transfer Form */}
       <div className="p-4 bg-gray-800 rounded-lg">
         <h4 className="text-sm font-medium text-white mb-3">Transfer Tokens</h4>
@@ -80,14 +151,19 @@ export function ERC20TokenPanel() {
           />
           <button
             onClick={handleTransfer}
-            disabled={token.isLoading || !transferTo || !transferAmount}
+            disabled={isSending || token.isWrongNetwork || !transferTo || !transferAmount}
             className="w-full px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
           >
-            {token.isLoading ? 'Sending...' : 'Send'}
+            {isSending ? 'Sending...' : 'Send'}
           </button>
         </div>
       </div>
 
+      {/* Owner Administration */}
+      {isOwner && tokenInfo && (
+        <TokenAdminPanel token={token} tokenInfo={tokenInfo} network={network} />
+      )}
+
       {/* Transaction Status */}
       {token.txState.status === 'success' && (
         <div className="p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
@@ -102,6 +178,50 @@ export function ERC20TokenPanel() {
           <p className="text-sm text-red-400">{token.error.message}</p>
         </div>
       )}
+
+      {/* Batch transfers */}
+      {userAddress && tokenInfo && (
+        <BatchTransferPanel
+          contractAddress={contractAddress}
+          network={network}
+          symbol={tokenInfo.symbol}
+          disabled={token.isWrongNetwork}
+        />
+      )}
+
+      {/* Approvals */}
+      {userAddress && tokenInfo && (
+        <AllowanceManager
+          token={token}
+          contractAddress={contractAddress}
+          network={network}
+          account={userAddress}
+          decimals={tokenInfo.decimals}
+          symbol={tokenInfo.symbol}
+        />
+      )}
+
+      {/* Activity */}
+      {userAddress && tokenInfo && (
+        <TokenActivityTable
+          contractAddress={contractAddress}
+          network={network}
+          account={userAddress}
+          decimals={tokenInfo.decimals}
+          symbol={tokenInfo.symbol}
+        />
+      )}
+
+      {/* RPC health */}
+      <RpcStatus network={network} />
+
+      {preview && (
+        <FeePreviewDialog request={preview} onClose={() => setPreview(null)} />
+      )}
+
+      {userAddress && (
+        <RecentTransactionsDrawer network={network} account={userAddress} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,129 @@
+'use client';
+
+/**
+ * Factory Token Registry Browser
+ */
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import {
+  useFactoryTokens,
+  formatTokenAmount,
+  getNetwork,
+  getNetworkByChainId,
+  TOKEN_DECIMALS,
+  type SupportedNetwork,
+} from '@cradle/erc20-stylus';
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+interface FactoryTokenListProps {
+  // Defaults to the connected chain when it has a factory, else Arbitrum Sepolia
+  network?: SupportedNetwork;
+}
+
+export function FactoryTokenList({ network }: FactoryTokenListProps) {
+  const { address: userAddress, chainId } = useAccount();
+  const connected = chainId !== undefined ? getNetworkByChainId(chainId) : undefined;
+  const activeNetwork = network ?? (connected?.factoryAddress ? connected.network : 'arbitrum-sepolia');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [onlyMine, setOnlyMine] = useState(false);
+
+  // Debounce search so each keystroke doesn't rescan the registry
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { tokens, total, loadMore, hasMore, loadingMore, loadMoreError } = useFactoryTokens({
+    network: activeNetwork,
+    creator: onlyMine ? userAddress : undefined,
+    search,
+  });
+  const entries = tokens.status === 'success' ? tokens.data : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          placeholder="Search by name or symbol"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          className="flex-1 px-3 py-2 text-sm bg-gray-900 border border-gray-700 rounded text-white"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={onlyMine}
+            disabled={!userAddress}
+            onChange={(e) => setOnlyMine(e.target.checked)}
+          />
+          Created by me
+        </label>
+      </div>
+
+      <div className="p-4 bg-gray-800 rounded-lg">
+        <div className="flex justify-between mb-3">
+          <h4 className="text-sm font-medium text-white">Registered Tokens on {getNetwork(activeNetwork).name}</h4>
+          {total !== null && <span className="text-xs text-gray-500">{total} total</span>}
+        </div>
+
+        {tokens.status === 'error' && (
+          <p className="text-sm text-red-400">{tokens.error.message}</p>
+        )}
+
+        {tokens.status === 'success' && entries.length === 0 && (
+          <p className="text-sm text-gray-400">No tokens found.</p>
+        )}
+
+        {entries.length > 0 && (
+          <table className="w-full text-sm text-left text-gray-400">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="py-1">Token</th>
+                <th className="py-1">Address</th>
+                <th className="py-1">Owner</th>
+                <th className="py-1 text-right">Initial Supply</th>
+                <th className="py-1 text-right">Created</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((token) => (
+                <tr key={token.address} className="border-t border-gray-700">
+                  <td className="py-1">
+                    <Link href={`/token/${activeNetwork}/${token.address}`} className="text-white hover:underline">
+                      {token.name} ({token.symbol})
+                    </Link>
+                  </td>
+                  <td className="py-1 font-mono">{shorten(token.address)}</td>
+                  <td className="py-1 font-mono">{shorten(token.owner)}</td>
+                  <td className="py-1 text-right">{formatTokenAmount(token.initialSupply, TOKEN_DECIMALS)}</td>
+                  <td className="py-1 text-right">
+                    {token.createdAt > BigInt(0) ? new Date(Number(token.createdAt) * 1000).toLocaleDateString() : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {loadMoreError && (
+          <p className="mt-3 text-sm text-red-400">{loadMoreError.message}</p>
+        )}
+
+        {(hasMore || tokens.status === 'loading') && (
+          <button
+            onClick={loadMore}
+            disabled={tokens.status === 'loading' || loadingMore}
+            className="w-full mt-3 px-4 py-2 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+          >
+            {tokens.status === 'loading' || loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
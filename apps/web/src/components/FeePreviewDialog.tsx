@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Transaction Fee Preview Dialog
+ */
+
+import { useState, useEffect } from 'react';
+import { formatEther, formatGwei } from 'viem';
+import type { FeeEstimate } from '@cradle/erc20-stylus';
+
+export interface FeePreviewRequest {
+  title: string;
+  description?: string;
+  estimate: () => Promise<FeeEstimate>;
+  send: () => Promise<unknown>;
+}
+
+interface FeePreviewDialogProps {
+  request: FeePreviewRequest;
+  onClose: () => void;
+}
+
+export function FeePreviewDialog({ request, onClose }: FeePreviewDialogProps) {
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEstimate(null);
+    setError(null);
+    request.estimate()
+      .then((result) => !cancelled && setEstimate(result))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err : new Error(String(err))));
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  const handleConfirm = () => {
+    onClose();
+    // The wallet popup follows; failures surface through the token's error state
+    request.send().catch((err) => console.error(`${request.title} failed:`, err));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="w-full max-w-sm p-4 bg-gray-800 border border-gray-700 rounded-lg">
+        <h4 className="text-sm font-medium text-white mb-1">{request.title}</h4>
+        {request.description && (
+          <p className="text-xs text-gray-400 mb-3 break-all">{request.description}</p>
+        )}
+
+        {!estimate && !error && (
+          <p className="text-sm text-gray-400">Estimating fees...</p>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-400">{error.message}</p>
+        )}
+
+        {estimate && (
+          <dl className="grid grid-cols-2 gap-y-1 text-sm">
+            <dt className="text-gray-400">Gas limit</dt>
+            <dd className="text-right text-gray-300">{estimate.gasLimit.toString()}</dd>
+            <dt className="text-gray-400">Gas price</dt>
+            <dd className="text-right text-gray-300">{formatGwei(estimate.gasPrice)} gwei</dd>
+            {estimate.hasL1Breakdown && (
+              <>
+                <dt className="text-gray-400">L2 execution</dt>
+                <dd className="text-right text-gray-300">{formatEther(estimate.l2Fee)} ETH</dd>
+                <dt className="text-gray-400">L1 data</dt>
+                <dd className="text-right text-gray-300">{formatEther(estimate.l1Fee)} ETH</dd>
+              </>
+            )}
+            <dt className="text-white font-medium">Total</dt>
+            <dd className="text-right text-white font-medium">{estimate.formattedTotalFee} ETH</dd>
+          </dl>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!estimate}
+            className="flex-1 px-3 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+          >
+            Confirm in wallet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+/**
+ * Token panel for a network named in the URL, which may be one registered in this browser
+ */
+
+import { useState, useEffect } from 'react';
+import { notFound } from 'next/navigation';
+import type { Address } from 'viem';
+import { isSupportedNetwork, subscribeNetworks } from '@cradle/erc20-stylus';
+import { ERC20TokenPanel } from './ERC20TokenPanel';
+
+interface NetworkTokenPanelProps {
+  contractAddress: Address;
+  network: string;
+}
+
+export function NetworkTokenPanel({ contractAddress, network }: NetworkTokenPanelProps) {
+  // Unknown until mounted: the server only knows the built-in networks
+  const [supported, setSupported] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const check = () => setSupported(isSupportedNetwork(network));
+    check();
+    return subscribeNetworks(check);
+  }, [network]);
+
+  if (supported === false) {
+    notFound();
+  }
+
+  if (!supported) {
+    return <p className="text-sm text-gray-400">Loading network...</p>;
+  }
+
+  return <ERC20TokenPanel contractAddress={contractAddress} network={network} />;
+}
@@ -0,0 +1,99 @@
+'use client';
+
+/**
+ * Recent Transactions Drawer
+ */
+
+import { useState } from 'react';
+import type { Address } from 'viem';
+import { useTransactionHistory, getExplorerUrl, type SupportedNetwork } from '@cradle/erc20-stylus';
+
+interface RecentTransactionsDrawerProps {
+  network: SupportedNetwork;
+  account: Address;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const STATUS_STYLES = {
+  pending: 'text-yellow-400',
+  confirmed: 'text-green-400',
+  failed: 'text-red-400',
+  dropped: 'text-red-400',
+  replaced: 'text-orange-400',
+} as const;
+
+export function RecentTransactionsDrawer({ network, account }: RecentTransactionsDrawerProps) {
+  const { transactions, pending, clear } = useTransactionHistory({ network, account });
+  const [open, setOpen] = useState(false);
+
+  const explorerUrl = getExplorerUrl(network);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-40 px-4 py-2 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded-lg shadow-lg"
+      >
+        Transactions{pending.length > 0 && <span className="ml-2 text-yellow-400">{pending.length} pending</span>}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/60" onClick={() => setOpen(false)}>
+          <div
+            className="w-full max-w-sm h-full p-4 bg-gray-800 border-l border-gray-700 overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="text-sm font-medium text-white">Recent Transactions</h4>
+              <div className="flex gap-2">
+                <button
+                  onClick={clear}
+                  disabled={transactions.length === 0}
+                  className="px-3 py-1 text-xs font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+                >
+                  Clear
+                </button>
+                <button
+                  onClick={() => setOpen(false)}
+                  className="px-3 py-1 text-xs font-medium bg-gray-700 hover:bg-gray-600 text-white rounded"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+
+            {transactions.length === 0 && (
+              <p className="text-sm text-gray-400">No transactions yet.</p>
+            )}
+
+            <div className="space-y-3">
+              {transactions.map((record) => (
+                <div key={record.hash} className="text-sm border-t border-gray-700 pt-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-white capitalize">{record.kind}</span>
+                    <span className={STATUS_STYLES[record.status]}>{record.status}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {new Date(record.createdAt).toLocaleString()} · token {shorten(record.contractAddress)}
+                  </p>
+                  <p className="text-xs font-mono text-gray-400">
+                    {explorerUrl ? (
+                      <a href={`${explorerUrl}/tx/${record.hash}`} target="_blank" rel="noreferrer" className="hover:text-blue-400">
+                        {shorten(record.hash)}
+                      </a>
+                    ) : shorten(record.hash)}
+                    {record.replacedBy && <> → {shorten(record.replacedBy)}</>}
+                  </p>
+                  {record.error && record.status !== 'confirmed' && (
+                    <p className="text-xs text-red-400">{record.error}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+/**
+ * RPC Endpoint Status
+ */
+
+import { useRpcHealth, getNetwork, type SupportedNetwork } from '@cradle/erc20-stylus';
+
+interface RpcStatusProps {
+  network: SupportedNetwork;
+}
+
+const STATUS_STYLES = {
+  unknown: 'bg-gray-500',
+  healthy: 'bg-green-400',
+  degraded: 'bg-yellow-400',
+  down: 'bg-red-400',
+} as const;
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+export function RpcStatus({ network }: RpcStatusProps) {
+  const { endpoints, isHealthy, check } = useRpcHealth({ network });
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-white">{getNetwork(network).name} RPC</h4>
+        <button
+          onClick={() => check().catch((error) => console.error('RPC health check failed:', error))}
+          className="text-xs text-gray-400 hover:text-white"
+        >
+          Check now
+        </button>
+      </div>
+      {!isHealthy && (
+        <p className="text-xs text-red-400 mb-2">Every RPC endpoint is failing; reads will retry as endpoints recover.</p>
+      )}
+      <ul className="space-y-1">
+        {endpoints.map((endpoint) => (
+          <li key={endpoint.url} className="flex items-center gap-2 text-xs text-gray-400">
+            <span className={`w-2 h-2 rounded-full ${STATUS_STYLES[endpoint.status]}`} />
+            <span className="font-mono truncate flex-1">{hostOf(endpoint.url)}</span>
+            {endpoint.rateLimited && <span className="text-yellow-400">rate limited</span>}
+            {endpoint.status !== 'healthy' && endpoint.lastError && !endpoint.rateLimited && (
+              <span className="text-red-400 truncate">{endpoint.lastError}</span>
+            )}
+            {endpoint.latency !== undefined && <span>{endpoint.latency} ms</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
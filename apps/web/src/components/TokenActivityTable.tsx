@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * ERC-20 Token Activity Table
+ */
+
+import { useTokenActivity, formatTokenAmount, type SupportedNetwork, type TokenActivity } from '@cradle/erc20-stylus';
+import type { Address } from 'viem';
+
+interface TokenActivityTableProps {
+  contractAddress: Address;
+  network: SupportedNetwork;
+  account: Address;
+  decimals: number;
+  symbol: string;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+function describe(entry: TokenActivity, account: Address): { label: string; counterparty: Address } {
+  const self = account.toLowerCase();
+  switch (entry.kind) {
+    case 'mint':
+      return { label: 'Mint', counterparty: entry.to };
+    case 'burn':
+      return { label: 'Burn', counterparty: entry.from };
+    case 'transfer':
+      return entry.from.toLowerCase() === self
+        ? { label: 'Sent', counterparty: entry.to }
+        : { label: 'Received', counterparty: entry.from };
+    case 'approval':
+      return entry.owner.toLowerCase() === self
+        ? { label: 'Approved', counterparty: entry.spender }
+        : { label: 'Approved by', counterparty: entry.owner };
+  }
+}
+
+export function TokenActivityTable({ contractAddress, network, account, decimals, symbol }: TokenActivityTableProps) {
+  const { activity, loadMore, hasMore, loadingMore, loadMoreError } = useTokenActivity({ contractAddress, network, account });
+  const entries = activity.status === 'success' ? activity.data : [];
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg">
+      <h4 className="text-sm font-medium text-white mb-3">Your Activity</h4>
+
+      {activity.status === 'error' && (
+        <p className="text-sm text-red-400">{activity.error.message}</p>
+      )}
+
+      {activity.status === 'success' && entries.length === 0 && (
+        <p className="text-sm text-gray-400">No activity in the scanned blocks.</p>
+      )}
+
+      {entries.length > 0 && (
+        <table className="w-full text-sm text-left text-gray-400">
+          <thead className="text-xs text-gray-500">
+            <tr>
+              <th className="py-1">Type</th>
+              <th className="py-1">Counterparty</th>
+              <th className="py-1 text-right">Amount</th>
+              <th className="py-1 text-right">Tx</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => {
+              const { label, counterparty } = describe(entry, account);
+              return (
+                <tr key={`${entry.transactionHash}:${entry.logIndex}`} className="border-t border-gray-700">
+                  <td className="py-1 text-white">{label}</td>
+                  <td className="py-1 font-mono">{shorten(counterparty)}</td>
+                  <td className="py-1 text-right">{formatTokenAmount(entry.value, decimals)} {symbol}</td>
+                  <td className="py-1 text-right font-mono">{shorten(entry.transactionHash)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {loadMoreError && (
+        <p className="mt-3 text-sm text-red-400">{loadMoreError.message}</p>
+      )}
+
+      <button
+        onClick={loadMore}
+        disabled={!hasMore || activity.status === 'loading' || loadingMore}
+        className="w-full mt-3 px-4 py-2 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+      >
+        {activity.status === 'loading' || loadingMore ? 'Loading...' : hasMore ? 'Load older activity' : 'No older activity'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+/**
+ * ERC-20 Token Owner Administration
+ */
+
+import { useState } from 'react';
+import { useBytecode } from 'wagmi';
+import { isAddress, isAddressEqual, zeroAddress, type Address } from 'viem';
+import {
+  getChainId,
+  type SupportedNetwork,
+  type TokenInfo,
+  type UseERC20InteractionsReturn,
+} from '@cradle/erc20-stylus';
+import { FeePreviewDialog, type FeePreviewRequest } from './FeePreviewDialog';
+
+interface TokenAdminPanelProps {
+  token: UseERC20InteractionsReturn;
+  tokenInfo: TokenInfo;
+  network: SupportedNetwork;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm bg-gray-900 border border-gray-700 rounded text-white';
+const buttonClass = 'w-full px-4 py-2 text-sm font-medium text-white rounded disabled:opacity-50';
+
+export function TokenAdminPanel({ token, tokenInfo, network }: TokenAdminPanelProps) {
+  const [mintTo, setMintTo] = useState('');
+  const [mintAmount, setMintAmount] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [confirmOwner, setConfirmOwner] = useState('');
+  const [ownershipStep, setOwnershipStep] = useState<'enter' | 'confirm'>('enter');
+  const [preview, setPreview] = useState<FeePreviewRequest | null>(null);
+
+  // Each action is only blocked by its own pending transaction
+  const disabled = token.isWrongNetwork;
+  const isMinting = token.isOperationPending('mint');
+  const isTogglingPause = token.isOperationPending('pause');
+  const isTransferringOwnership = token.isOperationPending('transferOwnership');
+  const target = isAddress(newOwner) ? (newOwner as Address) : undefined;
+  const { data: targetCode } = useBytecode({
+    address: target,
+    chainId: getChainId(network),
+    query: { enabled: !!target },
+  });
+  const isZeroTarget = !!target && isAddressEqual(target, zeroAddress);
+  const isContractTarget = !!targetCode && targetCode !== '0x';
+  const confirmMatches = !!target && isAddress(confirmOwner) && isAddressEqual(target, confirmOwner as Address);
+
+  const handleMint = () => {
+    if (!isAddress(mintTo) || !mintAmount) return;
+    const to = mintTo as Address;
+    const amount = mintAmount;
+    setPreview({
+      title: 'Mint',
+      description: `${amount} ${tokenInfo.symbol} to ${to}`,
+      estimate: () => token.estimateMint(to, amount),
+      send: async () => {
+        await token.mint(to, amount, { requestId: 'mint' });
+        setMintTo('');
+        setMintAmount('');
+      },
+    });
+  };
+
+  const handleTogglePause = () => {
+    setPreview(tokenInfo.paused
+      ? { title: 'Unpause', estimate: token.estimateUnpause, send: () => token.unpause({ requestId: 'pause' }) }
+      : { title: 'Pause', estimate: token.estimatePause, send: () => token.pause({ requestId: 'pause' }) });
+  };
+
+  const resetOwnership = () => {
+    setNewOwner('');
+    setConfirmOwner('');
+    setOwnershipStep('enter');
+  };
+
+  const handleTransferOwnership = async () => {
+    if (!target || !confirmMatches) return;
+    try {
+      await token.transferOwnership(target, { requestId: 'transferOwnership' });
+      resetOwnership();
+    } catch (error) {
+      console.error('Ownership transfer failed:', error);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg space-y-6">
+      <h4 className="text-sm font-medium text-white">Owner Administration</h4>
+
+      {/* Mint */}
+      <div className="space-y-2">
+        <p className="text-xs text-gray-400">Mint {tokenInfo.symbol}</p>
+        <input
+          type="text"
+          placeholder="Recipient address (0x...)"
+          value={mintTo}
+          onChange={(e) => setMintTo(e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Amount"
+          value={mintAmount}
+          onChange={(e) => setMintAmount(e.target.value)}
+          className={inputClass}
+        />
+        <button
+          onClick={handleMint}
+          disabled={disabled || isMinting || !isAddress(mintTo) || !mintAmount}
+          className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}
+        >
+          {isMinting ? 'Minting...' : 'Mint'}
+        </button>
+      </div>
+
+      {/* Pause */}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-400">
+          Transfers are <span className={tokenInfo.paused ? 'text-yellow-400' : 'text-green-400'}>
+            {tokenInfo.paused ? 'paused' : 'active'}
+          </span>
+        </p>
+        <button
+          onClick={handleTogglePause}
+          disabled={disabled || isTogglingPause}
+          className="px-4 py-2 text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50"
+        >
+          {tokenInfo.paused ? 'Unpause' : 'Pause'}
+        </button>
+      </div>
+
+      {/* Transfer ownership */}
+      <div className="space-y-2">
+        <p className="text-xs text-gray-400">Transfer Ownership</p>
+        {ownershipStep === 'enter' ? (
+          <>
+            <input
+              type="text"
+              placeholder="New owner address (0x...)"
+              value={newOwner}
+              onChange={(e) => setNewOwner(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              onClick={() => setOwnershipStep('confirm')}
+              disabled={disabled || !target}
+              className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}
+            >
+              Continue
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-xs font-mono text-gray-300 break-all">{target}</p>
+            {isZeroTarget && (
+              <p className="text-sm text-red-400">
+                This is the zero address. Transferring to it permanently gives up ownership.
+              </p>
+            )}
+            {isContractTarget && (
+              <p className="text-sm text-yellow-400">
+                This address is a contract. Make sure it can call owner functions, or ownership will be stuck.
+              </p>
+            )}
+            <input
+              type="text"
+              placeholder="Re-enter the new owner address to confirm"
+              value={confirmOwner}
+              onChange={(e) => setConfirmOwner(e.target.value)}
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={resetOwnership}
+                className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleTransferOwnership}
+                disabled={disabled || isTransferringOwnership || !confirmMatches}
+                className={`${buttonClass} bg-red-600 hover:bg-red-700`}
+              >
+                Transfer Ownership
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {preview && (
+        <FeePreviewDialog request={preview} onClose={() => setPreview(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+/**
+ * Token Watchlist Dashboard
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  useTokenWatchlist,
+  useERC20Interactions,
+  getNetwork,
+  getNetworks,
+  type SupportedNetwork,
+  type WatchlistEntry,
+} from '@cradle/erc20-stylus';
+
+const networkName = (network: SupportedNetwork) => getNetwork(network).name;
+
+function WatchlistRow({ entry, onRemove }: { entry: WatchlistEntry; onRemove: () => void }) {
+  const token = useERC20Interactions({ contractAddress: entry.address, network: entry.network });
+  const balance = token.balance.status === 'success' ? token.balance.data.formatted : '...';
+
+  return (
+    <tr className="border-t border-gray-700">
+      <td className="py-2">
+        <Link href={`/token/${entry.network}/${entry.address}`} className="text-white hover:underline">
+          {entry.name} ({entry.symbol})
+        </Link>
+        <p className="text-xs font-mono text-gray-500 truncate">{entry.address}</p>
+      </td>
+      <td className="py-2 text-right">{balance}</td>
+      <td className="py-2 text-right">
+        <button onClick={onRemove} className="text-xs text-red-400 hover:underline">
+          Remove
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export function TokenWatchlist() {
+  const [network, setNetwork] = useState<SupportedNetwork>('arbitrum-sepolia');
+  const [newAddress, setNewAddress] = useState('');
+  const watchlist = useTokenWatchlist(network);
+
+  const handleAdd = async () => {
+    if (!newAddress) return;
+    try {
+      await watchlist.addToken(newAddress);
+      setNewAddress('');
+    } catch (error) {
+      console.error('Add token failed:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="p-4 bg-gray-800 rounded-lg">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-white">Watchlist</h4>
+          <select
+            value={network}
+            onChange={(e) => setNetwork(e.target.value as SupportedNetwork)}
+            className="px-2 py-1 text-sm bg-gray-900 border border-gray-700 rounded text-white"
+          >
+            {getNetworks().map((config) => (
+              <option key={config.network} value={config.network}>{config.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {watchlist.tokens.length === 0 ? (
+          <p className="text-sm text-gray-400">No tokens watched on {networkName(network)} yet.</p>
+        ) : (
+          <table className="w-full text-sm text-left text-gray-400">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="py-1">Token</th>
+                <th className="py-1 text-right">Your Balance</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {watchlist.tokens.map((entry) => (
+                <WatchlistRow
+                  key={entry.address}
+                  entry={entry}
+                  onRemove={() => watchlist.removeToken(entry.address)}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="p-4 bg-gray-800 rounded-lg">
+        <h4 className="text-sm font-medium text-white mb-3">Add Token</h4>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Token address (0x...)"
+            value={newAddress}
+            onChange={(e) => setNewAddress(e.target.value)}
+            className="flex-1 px-3 py-2 text-sm bg-gray-900 border border-gray-700 rounded text-white"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={watchlist.isAdding || !newAddress}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+          >
+            {watchlist.isAdding ? 'Checking...' : 'Add'}
+          </button>
+        </div>
+        {watchlist.error && (
+          <p className="mt-2 text-sm text-red-400">{watchlist.error.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,3 +4,10 @@
 
 export { useERC20Deploy } from './useERC20Deploy';
 export { useERC20Interactions } from './useERC20Interactions';
+export { useTokenActivity } from './useTokenActivity';
+export { useFactoryTokens } from './useFactoryTokens';
+export { useTokenWatchlist } from './useTokenWatchlist';
+export { useTokenAllowances } from './useTokenAllowances';
+export { useBatchTransfer } from './useBatchTransfer';
+export { useTransactionHistory } from './useTransactionHistory';
+export { useRpcHealth } from './useRpcHealth';
@@ -0,0 +1,180 @@
+/**
+ * React hook for batch token transfers (airdrops) using wagmi
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { PublicClient, WalletClient } from 'viem';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { ERC20_ABI } from '../constants';
+import { formatTokenAmount } from '../decimals';
+import { NetworkMismatchError } from '../errors';
+import { getTokenDecimals } from '../interactions';
+import { getChainId } from '../networks';
+import { getNetworkClient } from '../provider';
+import {
+  parseBatchTransfers,
+  summarizeBatch,
+  runBatchTransfer,
+  getBatchId,
+  getBatchProgress,
+  exportBatchReport,
+} from '../batch';
+import type {
+  UseBatchTransferOptions,
+  UseBatchTransferReturn,
+  BatchTransferRow,
+  BatchRowError,
+  BatchRowResult,
+} from '../types';
+
+export function useBatchTransfer(options: UseBatchTransferOptions): UseBatchTransferReturn {
+  const { contractAddress, network } = options;
+  const chainId = getChainId(network);
+
+  const account = useAccount();
+  const wagmiPublicClient = usePublicClient({ chainId });
+  const { data: wagmiWalletClient } = useWalletClient();
+
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+  const walletClient = options.walletClient ?? (wagmiWalletClient as WalletClient | undefined);
+  const userAddress = options.userAddress ?? account.address;
+
+  const [rows, setRows] = useState<BatchTransferRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<BatchRowError[]>([]);
+  const [balance, setBalance] = useState<{ value: bigint; decimals: number } | null>(null);
+  const [results, setResults] = useState<BatchRowResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running batch on unmount; confirmed rows stay persisted
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const getDecimals = useCallback(async (): Promise<number> => {
+    if (!publicClient) {
+      throw new Error('Public client is required to read token decimals');
+    }
+    return getTokenDecimals(contractAddress, publicClient);
+  }, [publicClient, contractAddress]);
+
+  const readBalance = useCallback(async (): Promise<bigint> => {
+    if (!userAddress || !publicClient) return BigInt(0);
+    return publicClient.readContract({
+      address: contractAddress,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [userAddress],
+    }) as Promise<bigint>;
+  }, [userAddress, publicClient, contractAddress]);
+
+  // Confirmed rows are already paid, so only the rest is checked against the balance
+  const summary = useMemo(
+    () => (balance ? summarizeBatch(rows, balance.value, balance.decimals, results) : null),
+    [rows, balance, results]
+  );
+
+  const parse = useCallback(async (input: string) => {
+    setError(null);
+    try {
+      const decimals = await getDecimals();
+      const parsed = parseBatchTransfers(input, decimals);
+      const value = await readBalance();
+
+      setRows(parsed.rows);
+      setParseErrors(parsed.errors);
+      setBalance({ value, decimals });
+      // Show progress left by an earlier, interrupted run of the same batch
+      setResults(getBatchProgress(getBatchId(contractAddress, parsed.rows)));
+      return parsed;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      setError(error);
+      throw error;
+    }
+  }, [getDecimals, readBalance, contractAddress]);
+
+  const run = useCallback(async () => {
+    if (!publicClient || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+    if (rows.length === 0) {
+      throw new Error('No valid rows to transfer');
+    }
+    const walletChainId = options.walletClient ? options.walletClient.chain?.id : account.chainId;
+    if (walletChainId !== undefined && walletChainId !== chainId) {
+      throw new NetworkMismatchError(chainId, walletChainId, network);
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const [decimals, value] = await Promise.all([getDecimals(), readBalance()]);
+      setBalance({ value, decimals });
+      // Rows confirmed by an earlier run are paid; the rest must fit the current balance
+      const pending = summarizeBatch(rows, value, decimals, getBatchProgress(getBatchId(contractAddress, rows)));
+      if (pending.exceedsBalance) {
+        throw new Error(
+          `The batch still needs ${pending.formattedRemaining} tokens but the balance is ${formatTokenAmount(value, decimals)}`
+        );
+      }
+
+      const final = await runBatchTransfer(
+        { contractAddress, rows, decimals, walletClient, publicClient },
+        { onUpdate: setResults, signal: controller.signal }
+      );
+      // The balance dropped by whatever was confirmed; keep the last known one if the read fails
+      readBalance()
+        .then((value) => setBalance({ value, decimals }))
+        .catch(() => undefined);
+      const failed = final.find((result) => result.status === 'failed');
+      if (failed) {
+        setError(new Error(`Row ${failed.index + 1} failed: ${failed.error}`));
+      }
+      return final;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      setError(error);
+      throw error;
+    } finally {
+      setIsRunning(false);
+    }
+  }, [publicClient, walletClient, rows, account.chainId, options.walletClient, chainId, network, getDecimals, readBalance, contractAddress]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const exportReport = useCallback(
+    (format: 'csv' | 'json' = 'csv') => exportBatchReport(results, format),
+    [results]
+  );
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    setRows([]);
+    setParseErrors([]);
+    setBalance(null);
+    setResults([]);
+    setError(null);
+  }, []);
+
+  return {
+    parse,
+    rows,
+    parseErrors,
+    summary,
+    run,
+    stop,
+    results,
+    isRunning,
+    error,
+    exportReport,
+    reset,
+  };
+}
@@ -2,12 +2,35 @@
  * React hook for deploying ERC20 tokens
  */
 
-import { useState, useCallback } from 'react';
-import { getRpcEndpoint, getFactoryAddress, deployERC20TokenViaAPI } from '../deployment';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Address, Hash, PublicClient, WalletClient } from 'viem';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { 
+  deployERC20TokenStaged,
+  deployERC20TokenWithWallet,
+  activateProgramWithWallet,
+  prepareStylusDeployment,
+  getDeploymentStatus,
+  initializeToken,
+  initializeTokenWithWallet,
+  registerTokenInFactory,
+  registerTokenWithWallet,
+  getDeploymentRecord,
+  getDeploymentRecords,
+  saveDeploymentRecord,
+  validateDeployTokenParams,
+} from '../deployment';
+import { NetworkMismatchError } from '../errors';
+import { getChainId, getNetwork, getRpcEndpoint } from '../networks';
+import { getNetworkClient } from '../provider';
 import type { 
   UseERC20DeployOptions, 
   UseERC20DeployReturn, 
   DeploymentState, 
+  DeploymentStage,
+  DeploymentStageProgress,
+  DeploymentProgress,
+  DeploymentRecord,
   DeployTokenParams,
   DeployTokenResult,
 } from '../types';
@@ -19,51 +42,284 @@ export function useERC20Deploy(options: UseERC20DeployOptions): UseERC20DeployRe
     privateKey, 
     rpcEndpoint, 
     network,
+    mode = privateKey ? 'api' : 'wallet',
     deploymentApiUrl = DEFAULT_DEPLOYMENT_API_URL,
   } = options;
 
+  // Wallet mode signs every transaction with the connected wagmi wallet
+  const chainId = getChainId(network);
+  const account = useAccount();
+  const wagmiPublicClient = usePublicClient({ chainId });
+  const { data: wagmiWalletClient } = useWalletClient({ chainId });
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+  const walletClient = options.walletClient ?? (wagmiWalletClient as WalletClient | undefined);
+
   const [deploymentState, setDeploymentState] = useState<DeploymentState>({ status: 'idle' });
+  const [stages, setStages] = useState<DeploymentStageProgress[]>([]);
   const [error, setError] = useState<Error | null>(null);
+  const [deploymentRecords, setDeploymentRecords] = useState<DeploymentRecord[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop polling when the component unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Load persisted deployment records (client-side only)
+  useEffect(() => {
+    setDeploymentRecords(getDeploymentRecords(network));
+  }, [network]);
 
   const actualRpcEndpoint = rpcEndpoint || getRpcEndpoint(network);
-  const factoryAddress = getFactoryAddress(network);
+  const factoryAddress = getNetwork(network).factoryAddress;
+
+  // Persist which stages a token has completed so a failed deployment can be resumed
+  const recordProgress = useCallback((
+    tokenAddress: Address,
+    params: DeployTokenParams,
+    stageList: DeploymentStageProgress[]
+  ) => {
+    const existing = getDeploymentRecord(network, tokenAddress);
+    const completedStages = new Set<DeploymentStage>(existing?.completedStages);
+    const txHashes: Partial<Record<DeploymentStage, Hash>> = { ...existing?.txHashes };
+
+    for (const stage of stageList) {
+      if (stage.status === 'complete' || stage.status === 'skipped') {
+        completedStages.add(stage.stage);
+      }
+      if (stage.txHash) {
+        txHashes[stage.stage] = stage.txHash;
+      }
+    }
+
+    saveDeploymentRecord({
+      tokenAddress,
+      network,
+      params,
+      completedStages: Array.from(completedStages),
+      txHashes,
+      updatedAt: Date.now(),
+    });
+    setDeploymentRecords(getDeploymentRecords(network));
+  }, [network]);
+
+  const fail = useCallback((err: unknown): Error => {
+    const error = err instanceof Error ? err : new Error(String(err));
+    setError(error);
+    setDeploymentState({ status: 'error', error });
+    return error;
+  }, []);
+
+  // Throws unless the signer for the current mode is available
+  const requireSigner = useCallback(() => {
+    if (mode === 'api' && !privateKey) {
+      throw new Error('Private key is required for API deployment');
+    }
+    if (mode === 'wallet' && !options.walletClient && account.chainId !== undefined && account.chainId !== chainId) {
+      throw new NetworkMismatchError(chainId, account.chainId, network);
+    }
+    if (mode === 'wallet' && (!walletClient || !publicClient)) {
+      throw new Error('Connect a wallet to deploy');
+    }
+  }, [mode, privateKey, options.walletClient, account.chainId, chainId, network, walletClient, publicClient]);
 
   const deployToken = useCallback(async (params: DeployTokenParams): Promise<DeployTokenResult> => {
-    if (!privateKey) {
-      throw new Error('Private key is required for deployment');
+    const [invalid] = validateDeployTokenParams(params);
+    if (invalid) {
+      throw fail(new Error(invalid.message));
     }
+    try {
+      requireSigner();
+    } catch (err) {
+      throw fail(err);
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     setError(null);
+    setStages([]);
     setDeploymentState({ status: 'deploying' });
 
+    const onProgress = (progress: DeploymentProgress) => {
+      setStages(progress.stages);
+      if (progress.tokenAddress) {
+        recordProgress(progress.tokenAddress, params, progress.stages);
+      }
+      if (progress.status !== 'success' && progress.status !== 'error') {
+        setDeploymentState({ status: progress.status });
+      }
+    };
+    const deployParams = {
+      ...params,
+      factoryAddress: params.factoryAddress || factoryAddress,
+      rpcEndpoint: actualRpcEndpoint,
+      deploymentApiUrl,
+    };
+
     try {
-      // Deploy via API
-      const result = await deployERC20TokenViaAPI({
-        ...params,
-        factoryAddress: params.factoryAddress || factoryAddress,
-        privateKey,
-        rpcEndpoint: actualRpcEndpoint,
-        deploymentApiUrl,
-      });
+      // Deploy via API (or sign with the wallet), following each stage as it is reported
+      const result = mode === 'wallet'
+        ? await deployERC20TokenWithWallet(
+            { ...deployParams, walletClient: walletClient!, publicClient: publicClient! },
+            { onProgress }
+          )
+        : await deployERC20TokenStaged(
+            { ...deployParams, privateKey: privateKey! },
+            { signal: controller.signal, onProgress }
+          );
+
+      setDeploymentState({ status: 'success', result });
+      return result;
+    } catch (err) {
+      throw fail(err);
+    }
+  }, [requireSigner, mode, privateKey, walletClient, publicClient, actualRpcEndpoint, factoryAddress, deploymentApiUrl, recordProgress, fail]);
+
+  // Resume a deployment whose contract is on-chain but whose init or
+  // factory registration did not complete, running only the missing steps
+  const resumeDeployment = useCallback(async (tokenAddress: Address): Promise<DeployTokenResult> => {
+    setError(null);
+
+    try {
+      requireSigner();
+
+      const record = getDeploymentRecord(network, tokenAddress);
+      if (!record) {
+        throw new Error(`No deployment record found for ${tokenAddress} on ${network}`);
+      }
+
+      const { params } = record;
+      // Without a factory registration is skipped, as it is when deploying
+      const tokenFactory = params.factoryAddress || factoryAddress;
+
+      setDeploymentState({ status: 'initializing' });
+      const status = await getDeploymentStatus(tokenAddress, tokenFactory, actualRpcEndpoint);
+      if (!status.deployed) {
+        throw new Error(`No contract code found at ${tokenAddress}; deploy the token again`);
+      }
+      // The API has no activation endpoint; only the wallet can send it from here
+      if (!status.activated && mode !== 'wallet') {
+        throw new Error(
+          `The program at ${tokenAddress} is not activated; run \`cargo stylus activate --address ${tokenAddress}\` and resume again`
+        );
+      }
+
+      const stageList: DeploymentStageProgress[] = [
+        { stage: 'deploying', status: 'complete', txHash: record.txHashes.deploying },
+        status.activated
+          ? { stage: 'activating', status: 'complete', txHash: record.txHashes.activating }
+          : { stage: 'activating', status: 'pending' },
+        { stage: 'initializing', status: status.initialized ? 'skipped' : 'pending' },
+        tokenFactory
+          ? { stage: 'registering', status: status.registered ? 'skipped' : 'pending' }
+          : { stage: 'registering', status: 'skipped', output: 'No factory address given' },
+      ];
+      const updateStage = (stage: DeploymentStageProgress) => {
+        const index = stageList.findIndex((s) => s.stage === stage.stage);
+        stageList[index] = stage;
+        setStages([...stageList]);
+        recordProgress(tokenAddress, params, stageList);
+      };
+      setStages([...stageList]);
+
+      if (!status.activated) {
+        setDeploymentState({ status: 'activating' });
+        updateStage({ stage: 'activating', status: 'running' });
+        // The API reports the current activation data fee
+        const { activationValue } = await prepareStylusDeployment({
+          ...params,
+          from: walletClient!.account!.address,
+          rpcEndpoint: actualRpcEndpoint,
+          deploymentApiUrl,
+        });
+        const hash = await activateProgramWithWallet(tokenAddress, BigInt(activationValue), walletClient!, publicClient!);
+        updateStage({ stage: 'activating', status: 'complete', txHash: hash, output: `Activated in ${hash}` });
+        setDeploymentState({ status: 'initializing' });
+      }
+
+      let initOutput: string | undefined;
+      if (!status.initialized) {
+        updateStage({ stage: 'initializing', status: 'running' });
+        const hash = mode === 'wallet'
+          ? await initializeTokenWithWallet(
+              tokenAddress,
+              params.name,
+              params.symbol,
+              params.initialSupply,
+              walletClient!,
+              publicClient!
+            )
+          : await initializeToken(
+              tokenAddress,
+              params.name,
+              params.symbol,
+              params.initialSupply,
+              privateKey!,
+              actualRpcEndpoint
+            );
+        initOutput = `Initialized in ${hash}`;
+        updateStage({ stage: 'initializing', status: 'complete', txHash: hash as Hash, output: initOutput });
+      }
+
+      let registerOutput: string | undefined;
+      if (tokenFactory && !status.registered) {
+        setDeploymentState({ status: 'registering' });
+        updateStage({ stage: 'registering', status: 'running' });
+        const hash = mode === 'wallet'
+          ? await registerTokenWithWallet(
+              tokenAddress,
+              params.name,
+              params.symbol,
+              params.initialSupply,
+              tokenFactory,
+              walletClient!,
+              publicClient!
+            )
+          : await registerTokenInFactory(
+              tokenAddress,
+              params.name,
+              params.symbol,
+              params.initialSupply,
+              tokenFactory,
+              privateKey!,
+              actualRpcEndpoint
+            );
+        registerOutput = `Registered in ${hash}`;
+        updateStage({ stage: 'registering', status: 'complete', txHash: hash as Hash, output: registerOutput });
+      }
 
+      const result: DeployTokenResult = {
+        tokenAddress,
+        txHash: record.txHashes.deploying,
+        success: true,
+        initOutput,
+        registerOutput,
+        stages: stageList,
+      };
       setDeploymentState({ status: 'success', result });
       return result;
     } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
-      setError(error);
-      setDeploymentState({ status: 'error', error });
-      throw error;
+      throw fail(err);
     }
-  }, [privateKey, actualRpcEndpoint, factoryAddress, deploymentApiUrl]);
+  }, [requireSigner, mode, privateKey, walletClient, publicClient, network, factoryAddress, actualRpcEndpoint, deploymentApiUrl, recordProgress, fail]);
 
   const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setDeploymentState({ status: 'idle' });
+    setStages([]);
     setError(null);
   }, []);
 
   return {
     deployToken,
     deploymentState,
+    stages,
+    resumeDeployment,
+    deploymentRecords,
     isDeploying: deploymentState.status === 'deploying' || 
                  deploymentState.status === 'activating' ||
                  deploymentState.status === 'initializing' ||
@@ -2,10 +2,27 @@
  * React hook for interacting with ERC20 tokens using wagmi
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import type { Address, Hash, PublicClient, WalletClient } from 'viem';
-import { parseUnits, formatUnits } from 'viem';
-import { ERC20_ABI, TOKEN_DECIMALS, getRpcEndpoint } from '../constants';
+import { zeroAddress } from 'viem';
+import { useAccount, usePublicClient, useWalletClient, useSwitchChain } from 'wagmi';
+import { ERC20_ABI, TOKEN_DECIMALS } from '../constants';
+import { parseTokenAmount, formatTokenAmount } from '../decimals';
+import { decodeTokenError, NetworkMismatchError } from '../errors';
+import { estimateTokenWrite } from '../fees';
+import {
+  getTokenDecimals,
+  getTokenInfo,
+  getBalance,
+  getAllowance,
+  submitTokenWrite,
+  type TokenWriteArgs,
+  type TokenWriteCall,
+  type TokenWriteFunction,
+} from '../interactions';
+import { getChainId } from '../networks';
+import { getNetworkClient } from '../provider';
+import { recordTransaction, trackTransaction } from '../transactions';
 import type { 
   UseERC20InteractionsOptions, 
   UseERC20InteractionsReturn,
@@ -14,21 +31,58 @@ import type {
   TokenInfo,
   BalanceInfo,
   AllowanceInfo,
+  FeeEstimate,
+  TransactionRecord,
+  TransactionOperation,
+  WriteOptions,
 } from '../types';
 
+const DEFAULT_POLLING_INTERVAL = 4000;
+
 export function useERC20Interactions(options: UseERC20InteractionsOptions): UseERC20InteractionsReturn {
   const { 
     contractAddress, 
     network,
-    publicClient,
-    walletClient,
-    userAddress,
+    watch = false,
+    pollingInterval = DEFAULT_POLLING_INTERVAL,
+    onApproval,
   } = options;
 
+  const chainId = getChainId(network);
+
+  // Fall back to the clients of the connected wagmi wallet when none are passed.
+  // Reads always go to the hook's network; writes go through the wallet's current chain.
+  const account = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const wagmiPublicClient = usePublicClient({ chainId });
+  const { data: wagmiWalletClient } = useWalletClient();
+
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+  const walletClient = options.walletClient ?? (wagmiWalletClient as WalletClient | undefined);
+  const userAddress = options.userAddress ?? account.address;
+
+  const walletChainId = options.walletClient ? options.walletClient.chain?.id : account.chainId;
+  const isWrongNetwork = walletChainId !== undefined && walletChainId !== chainId;
+
   const [tokenInfo, setTokenInfo] = useState<AsyncState<TokenInfo>>({ status: 'idle' });
   const [balance, setBalance] = useState<AsyncState<BalanceInfo>>({ status: 'idle' });
   const [txState, setTxState] = useState<TransactionState>({ status: 'idle' });
+  const [operations, setOperations] = useState<Record<string, TransactionOperation>>({});
   const [error, setError] = useState<Error | null>(null);
+  // Wallet submissions run one at a time so popups and nonces stay in order;
+  // confirmations of independent writes overlap
+  const submitQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Token decimals (read once per token and chain, then cached)
+  const getDecimals = useCallback(async (): Promise<number> => {
+    if (!publicClient) {
+      throw new Error('Public client is required to read token decimals');
+    }
+    return getTokenDecimals(contractAddress, publicClient);
+  }, [publicClient, contractAddress]);
 
   // Fetch token info
   const refetchTokenInfo = useCallback(async () => {
@@ -36,57 +90,20 @@ export function useERC20Interactions(options: UseERC20InteractionsOptions): UseE
     
     setTokenInfo({ status: 'loading' });
     try {
-      const [name, symbol, decimals, totalSupply, owner, paused] = await Promise.all([
-        publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'name',
-        }) as Promise<string>,
-        publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'symbol',
-        }) as Promise<string>,
-        publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'decimals',
-        }) as Promise<number>,
-        publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'totalSupply',
-        }) as Promise<bigint>,
-        publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'owner',
-        }) as Promise<Address>,
-        publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'paused',
-        }) as Promise<boolean>,
-      ]);
-
-      setTokenInfo({
-        status: 'success',
-        data: {
-          address: contractAddress,
-          name,
-          symbol,
-          decimals,
-          totalSupply,
-          formattedTotalSupply: formatUnits(totalSupply, decimals),
-          owner,
-          paused,
-        },
-      });
+      setTokenInfo({ status: 'success', data: await getTokenInfo(contractAddress, publicClient) });
     } catch (err) {
       setTokenInfo({ status: 'error', error: err instanceof Error ? err : new Error(String(err)) });
     }
   }, [publicClient, contractAddress]);
 
+  // Read balance of the user address
+  const readBalance = useCallback(async (account: Address): Promise<BalanceInfo> => {
+    if (!publicClient) {
+      throw new Error('Public client is required');
+    }
+    return getBalance(contractAddress, account, publicClient);
+  }, [publicClient, contractAddress]);
+
   // Fetch balance
   const refetchBalance = useCallback(async () => {
     if (!publicClient || !userAddress) {
@@ -95,24 +112,11 @@ export function useERC20Interactions(options: UseERC20InteractionsOptions): UseE
     }
     setBalance({ status: 'loading' });
     try {
-      const balanceValue = await publicClient.readContract({
-        address: contractAddress,
-        abi: ERC20_ABI,
-        functionName: 'balanceOf',
-        args: [userAddress],
-      }) as bigint;
-      
-      setBalance({
-        status: 'success',
-        data: {
-          balance: balanceValue,
-          formatted: formatUnits(balanceValue, TOKEN_DECIMALS),
-        },
-      });
+      setBalance({ status: 'success', data: await readBalance(userAddress) });
     } catch (err) {
       setBalance({ status: 'error', error: err instanceof Error ? err : new Error(String(err)) });
     }
-  }, [publicClient, contractAddress, userAddress]);
+  }, [publicClient, userAddress, readBalance]);
 
   // Fetch on mount
   useEffect(() => {
@@ -120,128 +124,341 @@ export function useERC20Interactions(options: UseERC20InteractionsOptions): UseE
     refetchBalance();
   }, [refetchTokenInfo, refetchBalance]);
 
+  // Watch token events and update state in place (no loading state).
+  // viem subscribes over WebSocket transports and polls filters over HTTP.
+  // The contract emits no pause or ownership events, so those are polled.
+  useEffect(() => {
+    if (!watch || !publicClient) return;
+
+    const isUser = (address?: Address) =>
+      !!userAddress && !!address && address.toLowerCase() === userAddress.toLowerCase();
+
+    const syncBalance = () => {
+      if (!userAddress) return;
+      readBalance(userAddress)
+        .then((data) => setBalance({ status: 'success', data }))
+        // Keep the last known balance; the next event or refetch retries
+        .catch(() => undefined);
+    };
+
+    const syncTotalSupply = () => {
+      Promise.all([
+        publicClient.readContract({
+          address: contractAddress,
+          abi: ERC20_ABI,
+          functionName: 'totalSupply',
+        }) as Promise<bigint>,
+        getDecimals(),
+      ])
+        .then(([totalSupply, decimals]) => updateTokenInfo({
+          totalSupply,
+          formattedTotalSupply: formatTokenAmount(totalSupply, decimals),
+        }))
+        .catch(() => undefined);
+    };
+
+    const updateTokenInfo = (patch: Partial<TokenInfo>) => {
+      setTokenInfo((current) =>
+        current.status === 'success' ? { status: 'success', data: { ...current.data, ...patch } } : current
+      );
+    };
+
+    const syncAdminState = () => {
+      Promise.all([
+        publicClient.readContract({ address: contractAddress, abi: ERC20_ABI, functionName: 'owner' }) as Promise<Address>,
+        publicClient.readContract({ address: contractAddress, abi: ERC20_ABI, functionName: 'paused' }) as Promise<boolean>,
+      ])
+        .then(([owner, paused]) => setTokenInfo((current) =>
+          current.status === 'success' && (current.data.owner !== owner || current.data.paused !== paused)
+            ? { status: 'success', data: { ...current.data, owner, paused } }
+            : current
+        ))
+        .catch(() => undefined);
+    };
+    const adminTimer = setInterval(syncAdminState, pollingInterval);
+
+    const unwatchers = [
+      publicClient.watchContractEvent({
+        address: contractAddress,
+        abi: ERC20_ABI,
+        eventName: 'Transfer',
+        pollingInterval,
+        onLogs: (logs) => {
+          let balanceChanged = false;
+          let supplyChanged = false;
+          for (const { args } of logs) {
+            if (isUser(args.from) || isUser(args.to)) balanceChanged = true;
+            if (args.from === zeroAddress || args.to === zeroAddress) supplyChanged = true;
+          }
+          if (balanceChanged) syncBalance();
+          if (supplyChanged) syncTotalSupply();
+        },
+      }),
+      publicClient.watchContractEvent({
+        address: contractAddress,
+        abi: ERC20_ABI,
+        eventName: 'Approval',
+        pollingInterval,
+        onLogs: (logs) => {
+          for (const log of logs) {
+            const { owner, spender, value } = log.args;
+            if (!owner || !spender || value === undefined || log.blockNumber === null || !log.transactionHash) continue;
+            onApproval?.({
+              kind: 'approval',
+              owner,
+              spender,
+              value,
+              blockNumber: log.blockNumber,
+              transactionHash: log.transactionHash,
+              logIndex: log.logIndex ?? 0,
+            });
+          }
+        },
+      }),
+    ];
+
+    return () => {
+      clearInterval(adminTimer);
+      unwatchers.forEach((unwatch) => unwatch());
+    };
+  }, [watch, pollingInterval, publicClient, contractAddress, userAddress, readBalance, getDecimals, onApproval]);
+
   // Get allowance
-  const getAllowance = useCallback(async (spender: Address): Promise<AllowanceInfo> => {
+  const getSpenderAllowance = useCallback(async (spender: Address): Promise<AllowanceInfo> => {
     if (!publicClient || !userAddress) {
       throw new Error('Public client and user address are required');
     }
-    const allowance = await publicClient.readContract({
-      address: contractAddress,
-      abi: ERC20_ABI,
-      functionName: 'allowance',
-      args: [userAddress, spender],
-    }) as bigint;
-    
-    return {
-      allowance,
-      formatted: formatUnits(allowance, TOKEN_DECIMALS),
-    };
+    return getAllowance(contractAddress, userAddress, spender, publicClient);
   }, [publicClient, contractAddress, userAddress]);
 
+  // Helper to estimate a write for the user address (simulates, no wallet popup)
+  const estimateTransaction = useCallback(async <F extends TokenWriteFunction>(
+    functionName: F,
+    args: TokenWriteArgs<F>
+  ): Promise<FeeEstimate> => {
+    if (!publicClient || !userAddress) {
+      throw new Error('Public client and user address are required');
+    }
+    return estimateTokenWrite(contractAddress, functionName, args, userAddress, publicClient);
+  }, [publicClient, userAddress, contractAddress]);
+
+  const estimateTransfer = useCallback(async (to: Address, amount: string): Promise<FeeEstimate> => {
+    return estimateTransaction('transfer', [to, parseTokenAmount(amount, await getDecimals())]);
+  }, [estimateTransaction, getDecimals]);
+
+  const estimateApprove = useCallback(async (spender: Address, amount: string): Promise<FeeEstimate> => {
+    return estimateTransaction('approve', [spender, parseTokenAmount(amount, await getDecimals())]);
+  }, [estimateTransaction, getDecimals]);
+
+  const estimateMint = useCallback(async (to: Address, amount: string): Promise<FeeEstimate> => {
+    return estimateTransaction('mint', [to, parseTokenAmount(amount, await getDecimals())]);
+  }, [estimateTransaction, getDecimals]);
+
+  const estimateBurn = useCallback(async (amount: string): Promise<FeeEstimate> => {
+    return estimateTransaction('burn', [parseTokenAmount(amount, await getDecimals())]);
+  }, [estimateTransaction, getDecimals]);
+
+  const estimatePause = useCallback(
+    (): Promise<FeeEstimate> => estimateTransaction('pause', []),
+    [estimateTransaction]
+  );
+
+  const estimateUnpause = useCallback(
+    (): Promise<FeeEstimate> => estimateTransaction('unpause', []),
+    [estimateTransaction]
+  );
+
   // Helper to execute a write transaction
   const executeTransaction = useCallback(async (
-    functionName: string,
-    args: unknown[]
+    call: TokenWriteCall,
+    id: string
   ): Promise<Hash> => {
+    const { functionName, args } = call;
+    // Update this operation, and txState as the most recent one
+    const setState = (state: TransactionState) => {
+      setOperations((current) => ({
+        ...current,
+        [id]: { id, kind: functionName, state, startedAt: current[id]?.startedAt ?? Date.now() },
+      }));
+      setTxState(state);
+    };
+
     if (!walletClient || !publicClient) {
       throw new Error('Wallet client is required for transactions');
     }
+    const sender = walletClient.account?.address ?? userAddress;
+    if (!sender) {
+      throw new Error('Wallet account is required for transactions');
+    }
+    if (isWrongNetwork) {
+      const error = new NetworkMismatchError(chainId, walletChainId!, network);
+      setError(error);
+      setState({ status: 'error', error });
+      throw error;
+    }
 
     setError(null);
-    setTxState({ status: 'pending' });
+    setState({ status: 'pending' });
 
     try {
-      // Use any type assertion for dynamic contract calls
-      const { request } = await publicClient.simulateContract({
-        address: contractAddress,
-        abi: ERC20_ABI,
-        functionName: functionName as any,
-        args: args as any,
-        account: walletClient.account,
-      } as any);
+      const submission = submitQueueRef.current.then(() =>
+        submitTokenWrite(contractAddress, call, walletClient, publicClient)
+      );
+      submitQueueRef.current = submission.catch(() => undefined);
+
+      const hash = await submission;
+      setState({ status: 'confirming', hash });
 
-      const hash = await walletClient.writeContract(request as any);
-      setTxState({ status: 'confirming', hash });
+      // Log the transaction so a reload while confirming can re-attach to it
+      const now = Date.now();
+      const record: TransactionRecord = {
+        hash,
+        kind: functionName,
+        args: args.map(String),
+        contractAddress,
+        network,
+        account: sender,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+      };
+      recordTransaction(record);
 
-      await publicClient.waitForTransactionReceipt({ hash });
-      setTxState({ status: 'success', hash });
+      const outcome = await trackTransaction(record, publicClient);
+      if (outcome.status !== 'confirmed') {
+        throw new Error(outcome.error ?? `Transaction ${hash} is still pending`);
+      }
+      // A sped-up transaction confirms under the replacement's hash
+      const confirmedHash = outcome.replacedBy ?? hash;
+      setState({ status: 'success', hash: confirmedHash });
 
-      return hash;
+      return confirmedHash;
     } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
+      const decimals = await getDecimals().catch(() => TOKEN_DECIMALS);
+      const error = decodeTokenError(err, decimals);
       setError(error);
-      setTxState({ status: 'error', error });
+      setState({ status: 'error', error });
       throw error;
     }
-  }, [walletClient, publicClient, contractAddress]);
+  }, [walletClient, publicClient, userAddress, contractAddress, isWrongNetwork, walletChainId, network, chainId, getDecimals]);
+
+  // Switch the connected wallet to the hook's network
+  const switchNetwork = useCallback(async (): Promise<void> => {
+    await switchChainAsync({ chainId });
+  }, [switchChainAsync, chainId]);
 
   // Transfer
-  const transfer = useCallback(async (to: Address, amount: string): Promise<Hash> => {
-    const amountWei = parseUnits(amount, TOKEN_DECIMALS);
-    const hash = await executeTransaction('transfer', [to, amountWei]);
+  const transfer = useCallback(async (to: Address, amount: string, options: WriteOptions): Promise<Hash> => {
+    const amountWei = parseTokenAmount(amount, await getDecimals());
+    const hash = await executeTransaction({ functionName: 'transfer', args: [to, amountWei] }, options.requestId);
     refetchBalance();
     return hash;
-  }, [executeTransaction, refetchBalance]);
+  }, [executeTransaction, getDecimals, refetchBalance]);
 
   // Approve
-  const approve = useCallback(async (spender: Address, amount: string): Promise<Hash> => {
-    const amountWei = parseUnits(amount, TOKEN_DECIMALS);
-    return executeTransaction('approve', [spender, amountWei]);
+  const approve = useCallback(async (spender: Address, amount: string, options: WriteOptions): Promise<Hash> => {
+    const amountWei = parseTokenAmount(amount, await getDecimals());
+    return executeTransaction({ functionName: 'approve', args: [spender, amountWei] }, options.requestId);
+  }, [executeTransaction, getDecimals]);
+
+  // Safe approve: reset a non-zero allowance to zero before setting a new non-zero one,
+  // so a spender can't front-run the change and spend both the old and new allowance
+  const safeApprove = useCallback(async (spender: Address, amount: string, options: WriteOptions): Promise<Hash> => {
+    const amountWei = parseTokenAmount(amount, await getDecimals());
+    const { allowance: current } = await getSpenderAllowance(spender);
+    // Both transactions report under one operation
+    if (current > BigInt(0) && amountWei > BigInt(0)) {
+      await executeTransaction({ functionName: 'approve', args: [spender, BigInt(0)] }, options.requestId);
+    }
+    return executeTransaction({ functionName: 'approve', args: [spender, amountWei] }, options.requestId);
+  }, [executeTransaction, getDecimals, getSpenderAllowance]);
+
+  // Revoke
+  const revoke = useCallback(async (spender: Address, options: WriteOptions): Promise<Hash> => {
+    return executeTransaction({ functionName: 'approve', args: [spender, BigInt(0)] }, options.requestId);
   }, [executeTransaction]);
 
   // Transfer from
-  const transferFrom = useCallback(async (from: Address, to: Address, amount: string): Promise<Hash> => {
-    const amountWei = parseUnits(amount, TOKEN_DECIMALS);
-    const hash = await executeTransaction('transferFrom', [from, to, amountWei]);
+  const transferFrom = useCallback(async (from: Address, to: Address, amount: string, options: WriteOptions): Promise<Hash> => {
+    const amountWei = parseTokenAmount(amount, await getDecimals());
+    const hash = await executeTransaction({ functionName: 'transferFrom', args: [from, to, amountWei] }, options.requestId);
     refetchBalance();
     return hash;
-  }, [executeTransaction, refetchBalance]);
+  }, [executeTransaction, getDecimals, refetchBalance]);
 
   // Mint
-  const mint = useCallback(async (to: Address, amount: string): Promise<Hash> => {
-    const amountWei = parseUnits(amount, TOKEN_DECIMALS);
-    const hash = await executeTransaction('mint', [to, amountWei]);
+  const mint = useCallback(async (to: Address, amount: string, options: WriteOptions): Promise<Hash> => {
+    const amountWei = parseTokenAmount(amount, await getDecimals());
+    const hash = await executeTransaction({ functionName: 'mint', args: [to, amountWei] }, options.requestId);
     refetchTokenInfo();
     refetchBalance();
     return hash;
-  }, [executeTransaction, refetchTokenInfo, refetchBalance]);
+  }, [executeTransaction, getDecimals, refetchTokenInfo, refetchBalance]);
 
   // Burn
-  const burn = useCallback(async (amount: string): Promise<Hash> => {
-    const amountWei = parseUnits(amount, TOKEN_DECIMALS);
-    const hash = await executeTransaction('burn', [amountWei]);
+  const burn = useCallback(async (amount: string, options: WriteOptions): Promise<Hash> => {
+    const amountWei = parseTokenAmount(amount, await getDecimals());
+    const hash = await executeTransaction({ functionName: 'burn', args: [amountWei] }, options.requestId);
     refetchTokenInfo();
     refetchBalance();
     return hash;
-  }, [executeTransaction, refetchTokenInfo, refetchBalance]);
+  }, [executeTransaction, getDecimals, refetchTokenInfo, refetchBalance]);
 
   // Pause
-  const pause = useCallback(async (): Promise<Hash> => {
-    const hash = await executeTransaction('pause', []);
+  const pause = useCallback(async (options: WriteOptions): Promise<Hash> => {
+    const hash = await executeTransaction({ functionName: 'pause', args: [] }, options.requestId);
     refetchTokenInfo();
     return hash;
   }, [executeTransaction, refetchTokenInfo]);
 
   // Unpause
-  const unpause = useCallback(async (): Promise<Hash> => {
-    const hash = await executeTransaction('unpause', []);
+  const unpause = useCallback(async (options: WriteOptions): Promise<Hash> => {
+    const hash = await executeTransaction({ functionName: 'unpause', args: [] }, options.requestId);
     refetchTokenInfo();
     return hash;
   }, [executeTransaction, refetchTokenInfo]);
 
   // Transfer ownership
-  const transferOwnership = useCallback(async (newOwner: Address): Promise<Hash> => {
-    const hash = await executeTransaction('transferOwnership', [newOwner]);
+  const transferOwnership = useCallback(async (newOwner: Address, options: WriteOptions): Promise<Hash> => {
+    const hash = await executeTransaction({ functionName: 'transferOwnership', args: [newOwner] }, options.requestId);
     refetchTokenInfo();
     return hash;
   }, [executeTransaction, refetchTokenInfo]);
 
+  // Per-operation state
+  const getOperation = useCallback(
+    (requestId: string): TransactionState => operations[requestId]?.state ?? { status: 'idle' },
+    [operations]
+  );
+
+  const isOperationPending = useCallback((requestId: string): boolean => {
+    const status = operations[requestId]?.state.status;
+    return status === 'pending' || status === 'confirming';
+  }, [operations]);
+
+  const clearOperation = useCallback((requestId: string) => {
+    setOperations(({ [requestId]: _removed, ...rest }) => rest);
+  }, []);
+
+  const isLoading = useMemo(
+    () => Object.values(operations).some(({ state }) => state.status === 'pending' || state.status === 'confirming'),
+    [operations]
+  );
+
   return {
     tokenInfo,
     refetchTokenInfo,
     balance,
     refetchBalance,
-    getAllowance,
+    getAllowance: getSpenderAllowance,
+    safeApprove,
+    revoke,
+    estimateTransfer,
+    estimateApprove,
+    estimateMint,
+    estimateBurn,
+    estimatePause,
+    estimateUnpause,
     transfer,
     approve,
     transferFrom,
@@ -250,8 +467,14 @@ export function useERC20Interactions(options: UseERC20InteractionsOptions): UseE
     pause,
     unpause,
     transferOwnership,
+    isWrongNetwork,
+    switchNetwork,
+    operations,
+    getOperation,
+    isOperationPending,
+    clearOperation,
     txState,
-    isLoading: txState.status === 'pending' || txState.status === 'confirming',
+    isLoading,
     error,
   };
 }
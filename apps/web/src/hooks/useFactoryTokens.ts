@@ -0,0 +1,125 @@
+/**
+ * React hook for browsing tokens registered in the factory
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Address, PublicClient } from 'viem';
+import { usePublicClient } from 'wagmi';
+import { getChainId, getNetwork } from '../networks';
+import { getNetworkClient } from '../provider';
+import {
+  getFactoryTokenAddresses,
+  getFactoryTokens,
+  getTokensByCreator,
+  searchFactoryTokens,
+} from '../factory';
+import type {
+  UseFactoryTokensOptions,
+  UseFactoryTokensReturn,
+  AsyncState,
+  FactoryToken,
+} from '../types';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export function useFactoryTokens(options: UseFactoryTokensOptions): UseFactoryTokensReturn {
+  const {
+    network,
+    factoryAddress = getNetwork(network).factoryAddress,
+    creator,
+    fromBlock = getNetwork(network).factoryDeploymentBlock,
+    search = '',
+    pageSize = DEFAULT_PAGE_SIZE,
+  } = options;
+
+  const wagmiPublicClient = usePublicClient({ chainId: getChainId(network) });
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+
+  const [tokens, setTokens] = useState<AsyncState<FactoryToken[]>>({ status: 'idle' });
+  const [addresses, setAddresses] = useState<Address[] | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<Error | null>(null);
+  // Ignore results that resolve after the filters changed
+  const requestRef = useRef(0);
+
+  const query = search.trim();
+
+  // Resolve the address list for the current filters and load the first page
+  const refetch = useCallback(async () => {
+    if (!publicClient) return;
+    const request = ++requestRef.current;
+
+    if (!factoryAddress) {
+      setTokens({ status: 'error', error: new Error(`No token factory is configured for ${network}`) });
+      return;
+    }
+
+    setTokens({ status: 'loading' });
+    setLoadingMore(false);
+    setLoadMoreError(null);
+    try {
+      const list = creator
+        ? await getTokensByCreator(factoryAddress, creator, publicClient, { fromBlock })
+        : await getFactoryTokenAddresses(factoryAddress, publicClient);
+
+      const data = query
+        ? await searchFactoryTokens(factoryAddress, query, publicClient, { addresses: list, batchSize: pageSize })
+        : (await getFactoryTokens(factoryAddress, publicClient, { limit: pageSize, addresses: list })).tokens;
+      if (request !== requestRef.current) return;
+
+      // Search results are complete, so there is nothing more to page through
+      setAddresses(query ? data.map((token) => token.address) : list);
+      setTokens({ status: 'success', data });
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setTokens({ status: 'error', error: err instanceof Error ? err : new Error(String(err)) });
+    }
+  }, [publicClient, factoryAddress, network, creator, fromBlock, query, pageSize]);
+
+  const loaded = useMemo(() => (tokens.status === 'success' ? tokens.data : []), [tokens]);
+  const hasMore = addresses !== null && loaded.length < addresses.length;
+
+  // Load the next page of metadata, keeping the tokens already loaded
+  // (a failed page can be retried without losing them)
+  const loadMore = useCallback(async () => {
+    if (!publicClient || !factoryAddress || !addresses || !hasMore || loadingMore) return;
+    const request = requestRef.current;
+
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const page = await getFactoryTokens(factoryAddress, publicClient, {
+        offset: loaded.length,
+        limit: pageSize,
+        addresses,
+      });
+      if (request !== requestRef.current) return;
+
+      setTokens({ status: 'success', data: [...loaded, ...page.tokens] });
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setLoadMoreError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (request === requestRef.current) setLoadingMore(false);
+    }
+  }, [publicClient, factoryAddress, addresses, hasMore, loadingMore, loaded, pageSize]);
+
+  // Fetch on mount and when the filters change
+  useEffect(() => {
+    setAddresses(null);
+    refetch();
+  }, [refetch]);
+
+  return {
+    tokens,
+    total: addresses?.length ?? null,
+    loadMore,
+    hasMore,
+    loadingMore,
+    loadMoreError,
+    refetch,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * React hook for the health of a network's RPC endpoints
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { getNetwork } from '../networks';
+import { checkRpcHealth, getRpcHealth, subscribeRpcHealth } from '../transport';
+import type { UseRpcHealthOptions, UseRpcHealthReturn, RpcEndpointHealth } from '../types';
+
+const DEFAULT_CHECK_INTERVAL = 60000;
+
+export function useRpcHealth(options: UseRpcHealthOptions): UseRpcHealthReturn {
+  const { network, checkInterval = DEFAULT_CHECK_INTERVAL } = options;
+  const rpcUrls = getNetwork(network).rpcUrls;
+  const urlsKey = rpcUrls.join(',');
+
+  const [endpoints, setEndpoints] = useState<RpcEndpointHealth[]>(() => getRpcHealth(rpcUrls));
+
+  // Follow what requests from any client observe
+  useEffect(() => {
+    const urls = urlsKey.split(',');
+    const load = () => setEndpoints(getRpcHealth(urls));
+    load();
+    return subscribeRpcHealth(load);
+  }, [urlsKey]);
+
+  const check = useCallback(async () => {
+    await checkRpcHealth(urlsKey.split(','));
+  }, [urlsKey]);
+
+  // Probe periodically so failover order reflects every endpoint, not just the ones in use
+  useEffect(() => {
+    if (!checkInterval) return;
+    check().catch(() => undefined);
+    const timer = setInterval(() => check().catch(() => undefined), checkInterval);
+    return () => clearInterval(timer);
+  }, [check, checkInterval]);
+
+  return {
+    endpoints,
+    isHealthy: endpoints.some((endpoint) => endpoint.status !== 'down'),
+    check,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * React hook for paging through a token's Transfer and Approval history
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { PublicClient } from 'viem';
+import { usePublicClient } from 'wagmi';
+import { getChainId } from '../networks';
+import { getNetworkClient } from '../provider';
+import { getTransferHistory, getApprovalHistory, findDeploymentBlock } from '../events';
+import type {
+  UseTokenActivityOptions,
+  UseTokenActivityReturn,
+  AsyncState,
+  TokenActivity,
+} from '../types';
+
+const DEFAULT_PAGE_SIZE = BigInt(50_000);
+
+// Newest first
+function byRecency(a: TokenActivity, b: TokenActivity): number {
+  if (a.blockNumber === b.blockNumber) return b.logIndex - a.logIndex;
+  return a.blockNumber > b.blockNumber ? -1 : 1;
+}
+
+export function useTokenActivity(options: UseTokenActivityOptions): UseTokenActivityReturn {
+  const {
+    contractAddress,
+    network,
+    account,
+    pageSize = DEFAULT_PAGE_SIZE,
+  } = options;
+
+  const wagmiPublicClient = usePublicClient({ chainId: getChainId(network) });
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+
+  const [activity, setActivity] = useState<AsyncState<TokenActivity[]>>({ status: 'idle' });
+  // Oldest block already scanned; null before the first page loads
+  const [oldestBlock, setOldestBlock] = useState<bigint | null>(null);
+  // The token's deployment block; there is no activity to page through before it
+  const [firstBlock, setFirstBlock] = useState(BigInt(0));
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<Error | null>(null);
+  // Ignore pages that resolve after the token or account changed
+  const requestRef = useRef(0);
+
+  const fetchRange = useCallback(async (fromBlock: bigint, toBlock: bigint): Promise<TokenActivity[]> => {
+    if (!publicClient) return [];
+    const [transfers, approvals] = await Promise.all([
+      getTransferHistory(contractAddress, publicClient, { fromBlock, toBlock, account }),
+      getApprovalHistory(contractAddress, publicClient, { fromBlock, toBlock, account }),
+    ]);
+    return [...transfers, ...approvals].sort(byRecency);
+  }, [publicClient, contractAddress, account]);
+
+  // Load the most recent page
+  const refetch = useCallback(async () => {
+    if (!publicClient) return;
+    const request = ++requestRef.current;
+
+    setActivity({ status: 'loading' });
+    setLoadingMore(false);
+    setLoadMoreError(null);
+    try {
+      const [latest, deployedAt] = await Promise.all([
+        publicClient.getBlockNumber(),
+        // RPCs without historical state can't find it; page back to genesis then
+        findDeploymentBlock(contractAddress, publicClient).catch(() => BigInt(0)),
+      ]);
+      const fromBlock = latest - deployedAt >= pageSize ? latest - pageSize + BigInt(1) : deployedAt;
+      const events = await fetchRange(fromBlock, latest);
+      if (request !== requestRef.current) return;
+
+      setFirstBlock(deployedAt);
+      setOldestBlock(fromBlock);
+      setActivity({ status: 'success', data: events });
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setActivity({ status: 'error', error: err instanceof Error ? err : new Error(String(err)) });
+    }
+  }, [publicClient, contractAddress, pageSize, fetchRange]);
+
+  // Load the page before the oldest scanned block, keeping the loaded entries
+  // (a failed page can be retried without losing them)
+  const loadMore = useCallback(async () => {
+    if (oldestBlock === null || oldestBlock <= firstBlock || loadingMore) return;
+    const request = requestRef.current;
+
+    const toBlock = oldestBlock - BigInt(1);
+    const fromBlock = toBlock - firstBlock >= pageSize ? toBlock - pageSize + BigInt(1) : firstBlock;
+
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const events = await fetchRange(fromBlock, toBlock);
+      if (request !== requestRef.current) return;
+
+      setOldestBlock(fromBlock);
+      setActivity((current) => ({
+        status: 'success',
+        data: [...(current.status === 'success' ? current.data : []), ...events],
+      }));
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setLoadMoreError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (request === requestRef.current) setLoadingMore(false);
+    }
+  }, [oldestBlock, firstBlock, loadingMore, pageSize, fetchRange]);
+
+  // Fetch on mount and when the token or account changes
+  useEffect(() => {
+    setOldestBlock(null);
+    refetch();
+  }, [refetch]);
+
+  return {
+    activity,
+    loadMore,
+    hasMore: oldestBlock !== null && oldestBlock > firstBlock,
+    loadingMore,
+    loadMoreError,
+    refetch,
+  };
+}
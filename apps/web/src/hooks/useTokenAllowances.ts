@@ -0,0 +1,60 @@
+/**
+ * React hook for an owner's active token allowances
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { PublicClient } from 'viem';
+import { useAccount, usePublicClient } from 'wagmi';
+import { getChainId } from '../networks';
+import { getNetworkClient } from '../provider';
+import { getActiveAllowances } from '../allowances';
+import type {
+  UseTokenAllowancesOptions,
+  UseTokenAllowancesReturn,
+  AsyncState,
+  AllowanceEntry,
+} from '../types';
+
+export function useTokenAllowances(options: UseTokenAllowancesOptions): UseTokenAllowancesReturn {
+  const { contractAddress, network } = options;
+
+  const account = useAccount();
+  const wagmiPublicClient = usePublicClient({ chainId: getChainId(network) });
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+  const owner = options.owner ?? account.address;
+
+  const [allowances, setAllowances] = useState<AsyncState<AllowanceEntry[]>>({ status: 'idle' });
+  // Ignore results that resolve after the token or owner changed
+  const requestRef = useRef(0);
+
+  const refetch = useCallback(async () => {
+    if (!publicClient || !owner) {
+      setAllowances({ status: 'idle' });
+      return;
+    }
+    const request = ++requestRef.current;
+
+    setAllowances({ status: 'loading' });
+    try {
+      const data = await getActiveAllowances(contractAddress, owner, publicClient);
+      if (request !== requestRef.current) return;
+      setAllowances({ status: 'success', data });
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setAllowances({ status: 'error', error: err instanceof Error ? err : new Error(String(err)) });
+    }
+  }, [publicClient, contractAddress, owner]);
+
+  // Fetch on mount and when the token or owner changes
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    allowances,
+    refetch,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * React hook for the locally persisted token watchlist
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { Address } from 'viem';
+import type { SupportedNetwork } from '../constants';
+import { getWatchlist, addToWatchlist, removeFromWatchlist } from '../watchlist';
+import type { UseTokenWatchlistReturn, WatchlistEntry } from '../types';
+
+export function useTokenWatchlist(network: SupportedNetwork): UseTokenWatchlistReturn {
+  const [tokens, setTokens] = useState<WatchlistEntry[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Load from storage (client-side only)
+  useEffect(() => {
+    setTokens(getWatchlist(network));
+  }, [network]);
+
+  const addToken = useCallback(async (tokenAddress: string): Promise<WatchlistEntry> => {
+    setError(null);
+    setIsAdding(true);
+    try {
+      const entry = await addToWatchlist(network, tokenAddress.trim());
+      setTokens(getWatchlist(network));
+      return entry;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      setError(error);
+      throw error;
+    } finally {
+      setIsAdding(false);
+    }
+  }, [network]);
+
+  const removeToken = useCallback((tokenAddress: Address) => {
+    removeFromWatchlist(network, tokenAddress);
+    setTokens(getWatchlist(network));
+  }, [network]);
+
+  return {
+    tokens,
+    addToken,
+    removeToken,
+    isAdding,
+    error,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * React hook for an account's persisted transaction log
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { PublicClient } from 'viem';
+import { useAccount, usePublicClient } from 'wagmi';
+import { getChainId } from '../networks';
+import { getNetworkClient } from '../provider';
+import {
+  getTransactionLog,
+  clearTransactionLog,
+  subscribeTransactionLog,
+  resumePendingTransactions,
+} from '../transactions';
+import type {
+  UseTransactionHistoryOptions,
+  UseTransactionHistoryReturn,
+  TransactionRecord,
+} from '../types';
+
+export function useTransactionHistory(options: UseTransactionHistoryOptions): UseTransactionHistoryReturn {
+  const { network } = options;
+
+  const wagmiAccount = useAccount();
+  const wagmiPublicClient = usePublicClient({ chainId: getChainId(network) });
+  // Networks missing from the app's wagmi config are read over their own RPCs
+  const publicClient = options.publicClient
+    ?? (wagmiPublicClient as PublicClient | undefined)
+    ?? getNetworkClient(network);
+  const account = options.account ?? wagmiAccount.address;
+
+  const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
+
+  // Load from storage (client-side only) and follow writes from other hooks
+  useEffect(() => {
+    if (!account) {
+      setTransactions([]);
+      return;
+    }
+    const load = () => setTransactions(getTransactionLog(network, account));
+    load();
+    return subscribeTransactionLog(load);
+  }, [network, account]);
+
+  // Re-attach to transactions left pending by a previous page load
+  useEffect(() => {
+    if (!account || !publicClient) return;
+    resumePendingTransactions(network, account, publicClient).catch((err) =>
+      console.error('Failed to resume pending transactions:', err)
+    );
+  }, [network, account, publicClient]);
+
+  const clear = useCallback(() => {
+    if (account) clearTransactionLog(network, account);
+  }, [network, account]);
+
+  return {
+    transactions,
+    pending: transactions.filter((record) => record.status === 'pending'),
+    clear,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * ERC20 Token Allowances
+ *
+ * Reconstructs an owner's current spenders from Approval logs.
+ */
+
+import { maxUint256 } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import { ERC20_ABI } from './constants';
+import { getApprovalHistory } from './events';
+import { toPublicClient } from './provider';
+import type { AllowanceEntry, EventHistoryOptions } from './types';
+
+/**
+ * Whether an allowance is effectively unlimited (wallets commonly approve
+ * 2^256 - 1; anything above half of it is treated the same)
+ */
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= maxUint256 / BigInt(2);
+}
+
+/**
+ * Get every spender the owner has ever approved, most recently approved first
+ */
+export async function getApprovedSpenders(
+  contractAddress: Address,
+  owner: Address,
+  client: PublicClient | string,
+  options: Omit<EventHistoryOptions, 'account'> = {}
+): Promise<{ spender: Address; lastApprovedBlock: bigint }[]> {
+  const approvals = await getApprovalHistory(contractAddress, client, { ...options, account: owner });
+
+  const spenders = new Map<string, { spender: Address; lastApprovedBlock: bigint }>();
+  for (const approval of approvals) {
+    if (approval.owner.toLowerCase() !== owner.toLowerCase()) continue;
+    spenders.set(approval.spender.toLowerCase(), {
+      spender: approval.spender,
+      lastApprovedBlock: approval.blockNumber,
+    });
+  }
+
+  return Array.from(spenders.values()).sort((a, b) =>
+    a.lastApprovedBlock === b.lastApprovedBlock ? 0 : a.lastApprovedBlock > b.lastApprovedBlock ? -1 : 1
+  );
+}
+
+/**
+ * Get the owner's live, non-zero allowances
+ */
+export async function getActiveAllowances(
+  contractAddress: Address,
+  owner: Address,
+  client: PublicClient | string,
+  options: Omit<EventHistoryOptions, 'account'> = {}
+): Promise<AllowanceEntry[]> {
+  const publicClient = toPublicClient(client);
+  const spenders = await getApprovedSpenders(contractAddress, owner, publicClient, options);
+
+  const entries = await Promise.all(spenders.map(async ({ spender, lastApprovedBlock }) => {
+    const allowance = await publicClient.readContract({
+      address: contractAddress,
+      abi: ERC20_ABI,
+      functionName: 'allowance',
+      args: [owner, spender],
+    });
+    return { spender, allowance, isUnlimited: isUnlimitedAllowance(allowance), lastApprovedBlock };
+  }));
+
+  return entries.filter((entry) => entry.allowance > BigInt(0));
+}
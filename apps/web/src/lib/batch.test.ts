@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { getAddress } from 'viem';
+import { parseBatchTransfers, summarizeBatch } from './batch';
+import type { BatchRowResult } from './types';
+
+const ALICE = getAddress('0x00000000000000000000000000000000000000a1');
+const BOB = getAddress('0x00000000000000000000000000000000000000b2');
+
+describe('parseBatchTransfers', () => {
+  it('parses CSV rows, skipping blank lines and an address,amount header', () => {
+    const { rows, errors } = parseBatchTransfers(`address,amount\n${ALICE},1.5\n\n${BOB}; 2\n`, 6);
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { index: 0, line: 2, to: ALICE, amount: '1.5', value: BigInt(1500000) },
+      { index: 1, line: 4, to: BOB, amount: '2', value: BigInt(2000000) },
+    ]);
+  });
+
+  it('reports a mistyped first address instead of treating it as a header', () => {
+    const { rows, errors } = parseBatchTransfers(`x${ALICE.slice(1)},1\n${BOB},2`, 18);
+    expect(errors).toEqual([{ line: 1, message: `Invalid address "x${ALICE.slice(1)}"` }]);
+    expect(rows.map((row) => row.to)).toEqual([BOB]);
+  });
+
+  it('reports invalid rows with their line numbers', () => {
+    const input = [
+      `${BOB},1`,
+      `${BOB},0`,
+      `${BOB},1.0000001`,
+      `${BOB},abc`,
+      'not-an-address,1',
+      // All-lowercase addresses carry no checksum
+      '0x52908400098527886e0f7030069857d2e4169ee7,1',
+    ].join('\n');
+    const { rows, errors } = parseBatchTransfers(input, 6);
+    expect(rows).toHaveLength(2);
+    expect(errors.map((error) => error.line)).toEqual([2, 3, 4, 5]);
+    expect(errors[0].message).toBe('Amount must be greater than zero');
+    expect(errors[1].message).toContain('more than 6 decimal places');
+    expect(errors[3].message).toBe('Invalid address "not-an-address"');
+  });
+
+  it('rejects addresses with a wrong checksum', () => {
+    const wrong = '0x52908400098527886E0F7030069857D2E4169Ee7';
+    expect(parseBatchTransfers(`${wrong},1`, 18).errors).toEqual([
+      { line: 1, message: `Checksum mismatch for "${wrong}"` },
+    ]);
+  });
+
+  it('parses JSON arrays of { address, amount } or { to, amount }', () => {
+    const { rows, errors } = parseBatchTransfers(JSON.stringify([
+      { address: ALICE, amount: '3' },
+      { to: BOB, amount: '0.25' },
+      { amount: '1' },
+    ]), 2);
+    expect(rows.map(({ to, value }) => [to, value])).toEqual([[ALICE, BigInt(300)], [BOB, BigInt(25)]]);
+    expect(errors).toEqual([{ line: 3, message: 'Invalid address ""' }]);
+  });
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseBatchTransfers('[{', 18)).toThrow('not valid JSON');
+    expect(() => parseBatchTransfers('[1', 18)).toThrow();
+  });
+});
+
+describe('summarizeBatch', () => {
+  const { rows } = parseBatchTransfers(`${ALICE},1\n${BOB},2.5\n${ALICE},0.5`, 6);
+
+  it('totals the rows and checks them against the balance', () => {
+    expect(summarizeBatch(rows, BigInt(4000000), 6)).toEqual({
+      count: 3,
+      total: BigInt(4000000),
+      formattedTotal: '4',
+      remaining: BigInt(4000000),
+      formattedRemaining: '4',
+      exceedsBalance: false,
+    });
+    expect(summarizeBatch(rows, BigInt(3999999), 6).exceedsBalance).toBe(true);
+  });
+
+  it('leaves rows confirmed by an earlier run out of what the balance must cover', () => {
+    const results: BatchRowResult[] = [
+      { index: 0, to: ALICE, amount: '1', status: 'confirmed' },
+      { index: 1, to: BOB, amount: '2.5', status: 'failed', error: 'reverted' },
+    ];
+    const summary = summarizeBatch(rows, BigInt(3000000), 6, results);
+    expect(summary).toMatchObject({ total: BigInt(4000000), remaining: BigInt(3000000), formattedRemaining: '3' });
+    expect(summary.exceedsBalance).toBe(false);
+  });
+});
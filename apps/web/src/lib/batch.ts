@@ -0,0 +1,295 @@
+/**
+ * ERC20 Batch Transfers
+ *
+ * Parses address,amount lists, runs the transfers one by one and persists
+ * progress so an interrupted batch resumes after the last confirmed row.
+ */
+
+import {
+  getAddress,
+  isAddress,
+  keccak256,
+  toHex,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+} from 'viem';
+import type { Address, Hash, PublicClient, WalletClient } from 'viem';
+import { ERC20_ABI } from './constants';
+import { parseTokenAmount, formatTokenAmount } from './decimals';
+import { decodeTokenError } from './errors';
+import { readStored, writeStored, removeStored } from './storage';
+import type {
+  BatchTransferRow,
+  BatchParseResult,
+  BatchRowError,
+  BatchSummary,
+  BatchRowResult,
+} from './types';
+
+/**
+ * Parse a batch from CSV (`address,amount` per line, optional header) or
+ * JSON (`[{ "address": "0x..", "amount": "1.5" }]`). Rows are validated
+ * against the token decimals; invalid rows are reported, not dropped silently.
+ */
+export function parseBatchTransfers(input: string, decimals: number): BatchParseResult {
+  const text = input.trim();
+  const raw = text.startsWith('[') ? parseJsonRows(text) : parseCsvRows(text);
+
+  const rows: BatchTransferRow[] = [];
+  const errors: BatchRowError[] = [];
+
+  for (const { line, address, amount } of raw) {
+    if (!isAddress(address, { strict: false })) {
+      errors.push({ line, message: `Invalid address "${address}"` });
+      continue;
+    }
+    if (!isAddress(address)) {
+      errors.push({ line, message: `Checksum mismatch for "${address}"` });
+      continue;
+    }
+
+    let value: bigint;
+    try {
+      value = parseTokenAmount(amount, decimals);
+    } catch (err) {
+      errors.push({ line, message: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    if (value === BigInt(0)) {
+      errors.push({ line, message: 'Amount must be greater than zero' });
+      continue;
+    }
+
+    rows.push({ index: rows.length, line, to: getAddress(address), amount, value });
+  }
+
+  return { rows, errors };
+}
+
+function parseCsvRows(text: string): { line: number; address: string; amount: string }[] {
+  return text
+    .split(/\r?\n/)
+    .map((content, i) => ({ line: i + 1, cells: content.split(/[,;\t]/).map((c) => c.trim()) }))
+    .filter(({ cells }) => cells.some((c) => c !== ''))
+    // Skip a header row such as "address,amount"; anything else is validated as a row
+    .filter(({ cells, line }) => !(line === 1 && isHeader(cells)))
+    .map(({ line, cells }) => ({ line, address: cells[0] ?? '', amount: cells[1] ?? '' }));
+}
+
+function isHeader([address = '', amount = '']: string[]): boolean {
+  return /^(address|to|recipient)$/i.test(address) && /^(amount|value)$/i.test(amount);
+}
+
+function parseJsonRows(text: string): { line: number; address: string; amount: string }[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Batch JSON is not valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Batch JSON must be an array of { address, amount } objects');
+  }
+
+  return parsed.map((entry, i) => {
+    const item = (entry ?? {}) as Record<string, unknown>;
+    return {
+      line: i + 1,
+      address: String(item.address ?? item.to ?? ''),
+      amount: String(item.amount ?? ''),
+    };
+  });
+}
+
+/**
+ * Total a batch and check it against the sender's balance. Rows confirmed in
+ * `results` (an earlier run) are already paid, so only the rest must fit.
+ */
+export function summarizeBatch(
+  rows: BatchTransferRow[],
+  balance: bigint,
+  decimals: number,
+  results: BatchRowResult[] = []
+): BatchSummary {
+  const total = rows.reduce((sum, row) => sum + row.value, BigInt(0));
+  const remaining = rows
+    .filter((row) => results[row.index]?.status !== 'confirmed')
+    .reduce((sum, row) => sum + row.value, BigInt(0));
+  return {
+    count: rows.length,
+    total,
+    formattedTotal: formatTokenAmount(total, decimals),
+    remaining,
+    formattedRemaining: formatTokenAmount(remaining, decimals),
+    exceedsBalance: remaining > balance,
+  };
+}
+
+/**
+ * Stable id for a batch of rows on a token, used to persist and resume progress
+ */
+export function getBatchId(contractAddress: Address, rows: BatchTransferRow[]): string {
+  const content = rows.map((row) => `${row.to}:${row.value}`).join('|');
+  return keccak256(toHex(`${contractAddress.toLowerCase()}|${content}`)).slice(0, 18);
+}
+
+const batchKey = (batchId: string) => `batch:${batchId}`;
+
+/**
+ * Get persisted results for a batch (empty if it never ran)
+ */
+export function getBatchProgress(batchId: string): BatchRowResult[] {
+  return readStored<BatchRowResult[]>(batchKey(batchId), []);
+}
+
+/**
+ * Forget persisted results for a batch
+ */
+export function clearBatchProgress(batchId: string): void {
+  removeStored(batchKey(batchId));
+}
+
+/**
+ * Find out what happened to a transfer sent in an earlier run:
+ * - `confirmed` / `reverted`: it was mined
+ * - `pending`: the node knows it but it isn't mined yet
+ * - `dropped`: the node doesn't know it and its nonce is still unused
+ * - `unknown`: the nonce was used by another transaction (e.g. a wallet
+ *   speed-up that replaced it), or the nonce wasn't recorded
+ */
+async function getSentTransferState(
+  publicClient: PublicClient,
+  from: Address,
+  hash: Hash,
+  nonce: number | undefined
+): Promise<'confirmed' | 'reverted' | 'pending' | 'dropped' | 'unknown'> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    return receipt.status === 'success' ? 'confirmed' : 'reverted';
+  } catch (err) {
+    if (!(err instanceof TransactionReceiptNotFoundError)) throw err;
+  }
+  try {
+    await publicClient.getTransaction({ hash });
+    return 'pending';
+  } catch (err) {
+    if (!(err instanceof TransactionNotFoundError)) throw err;
+  }
+  if (nonce === undefined) return 'unknown';
+  const used = await publicClient.getTransactionCount({ address: from, blockTag: 'latest' });
+  return used > nonce ? 'unknown' : 'dropped';
+}
+
+/**
+ * Run a batch of transfers sequentially from the wallet. Rows already
+ * confirmed in a previous run are skipped. A row with a hash from an earlier
+ * run (sent, or failed after sending) is looked up first and awaited if the
+ * chain has it; it is only re-sent once it is known to have reverted or been
+ * dropped, so an interrupted batch never pays a row twice. Stops at the first
+ * failure; call again with the same rows to resume.
+ */
+export async function runBatchTransfer(
+  params: {
+    contractAddress: Address;
+    rows: BatchTransferRow[];
+    decimals: number;
+    walletClient: WalletClient;
+    publicClient: PublicClient;
+  },
+  options: {
+    onUpdate?: (results: BatchRowResult[]) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<BatchRowResult[]> {
+  const { contractAddress, rows, decimals, walletClient, publicClient } = params;
+  const { onUpdate, signal } = options;
+
+  const account = walletClient.account;
+  if (!account) {
+    throw new Error('Wallet client has no connected account');
+  }
+
+  const batchId = getBatchId(contractAddress, rows);
+  const previous = getBatchProgress(batchId);
+  const results: BatchRowResult[] = rows.map((row) =>
+    previous[row.index] ?? { index: row.index, to: row.to, amount: row.amount, status: 'pending' }
+  );
+  const update = (result: BatchRowResult) => {
+    results[result.index] = result;
+    writeStored(batchKey(batchId), results);
+    onUpdate?.([...results]);
+  };
+  onUpdate?.([...results]);
+
+  // Nonces are tracked locally so consecutive transfers never collide;
+  // after a failure the next run re-reads the pending nonce from the chain.
+  let nonce: number | undefined;
+
+  for (const row of rows) {
+    const result = results[row.index];
+    if (result.status === 'confirmed') continue;
+    if (signal?.aborted) break;
+
+    try {
+      let hash = result.hash;
+      if (hash) {
+        const state = await getSentTransferState(publicClient, account.address, hash, result.nonce);
+        if (state === 'unknown') {
+          throw new Error(
+            `Transfer ${hash} can't be found and may have been replaced by another transaction; ` +
+            'check the recipient balance before clearing this batch and running it again'
+          );
+        }
+        // Confirmed and pending transfers are awaited below
+        if (state === 'reverted' || state === 'dropped') {
+          hash = undefined;
+        }
+      }
+
+      if (!hash) {
+        nonce ??= await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+        hash = await walletClient.writeContract({
+          account,
+          chain: walletClient.chain,
+          address: contractAddress,
+          abi: ERC20_ABI,
+          functionName: 'transfer',
+          args: [row.to, row.value],
+          nonce,
+        });
+        update({ ...result, status: 'sent', hash, nonce, error: undefined, sentAt: Date.now() });
+        nonce += 1;
+      }
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transfer ${hash} reverted`);
+      }
+      update({ ...results[row.index], status: 'confirmed', hash, confirmedAt: Date.now() });
+    } catch (err) {
+      update({
+        ...results[row.index],
+        status: 'failed',
+        error: decodeTokenError(err, decimals).message,
+      });
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Export batch results as CSV or JSON, with tx hashes
+ */
+export function exportBatchReport(results: BatchRowResult[], format: 'csv' | 'json' = 'csv'): string {
+  if (format === 'json') {
+    return JSON.stringify(results, null, 2);
+  }
+
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const lines = results.map((r) =>
+    [r.index + 1, r.to, r.amount, r.status, r.hash ?? '', r.error ?? ''].map((v) => escape(String(v))).join(',')
+  );
+  return ['row,address,amount,status,txHash,error', ...lines].join('\n');
+}
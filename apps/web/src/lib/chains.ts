@@ -1,7 +1,24 @@
+import { type Chain } from 'viem';
+import { mainnet, sepolia, arbitrum, arbitrumSepolia, arbitrumNova } from 'viem/chains';
+import { getNetworkChain, getNetworks } from './networks';
 
-    import { type Chain } from 'viem';
-import { mainnet, sepolia, arbitrum, arbitrumSepolia } from 'viem/chains';
+    // viem's definitions where it has one (icons, contracts), otherwise built from the registry
+    const knownChains: Chain[] = [arbitrum, arbitrumSepolia, arbitrumNova];
 
-    // Default supported chains
-    export const chains = [arbitrum, arbitrumSepolia, mainnet, sepolia] as const;
-  
\ No newline at end of file
+    // Offered alongside the registry's networks, though the token features don't use them
+    const extraChains: Chain[] = [mainnet, sepolia];
+
+    // Every supported network as it is registered now, plus mainnet and sepolia.
+    // The local devnode is only offered in development.
+    function getChains(): [Chain, ...Chain[]] {
+      const networkChains = getNetworks()
+        .filter(({ network }) => network !== 'nitro-devnode' || process.env.NODE_ENV === 'development')
+        .map(({ network, chainId }) => knownChains.find((chain) => chain.id === chainId) ?? getNetworkChain(network));
+      return [
+        ...networkChains,
+        ...extraChains.filter((chain) => !networkChains.some(({ id }) => id === chain.id)),
+      ] as [Chain, ...Chain[]];
+    }
+
+    // Chains when the app loads, including networks restored from earlier sessions
+    export const chains = getChains();
@@ -4,31 +4,58 @@
 
 import type { Address } from 'viem';
 
+/**
+ * Built-in networks. Look networks up through the registry in ./networks,
+ * which also holds networks registered at runtime.
+ */
 export const CHAIN_IDS = {
   'arbitrum': 42161,
   'arbitrum-sepolia': 421614,
+  'arbitrum-nova': 42170,
+  'nitro-devnode': 412346,
 } as const;
 
-export type SupportedNetwork = keyof typeof CHAIN_IDS;
+export type BuiltInNetwork = keyof typeof CHAIN_IDS;
+
+/**
+ * Name of a built-in network or one registered with registerNetwork()
+ */
+export type SupportedNetwork = BuiltInNetwork | (string & {});
 
-export const RPC_ENDPOINTS: Record<SupportedNetwork, string> = {
+export const RPC_ENDPOINTS: Record<BuiltInNetwork, string> = {
   'arbitrum': 'https://arb1.arbitrum.io/rpc',
   'arbitrum-sepolia': 'https://sepolia-rollup.arbitrum.io/rpc',
+  'arbitrum-nova': 'https://nova.arbitrum.io/rpc',
+  'nitro-devnode': 'http://127.0.0.1:8547',
+};
+
+// Public endpoints requests fail over to when the default one is rate limited or down
+export const FALLBACK_RPC_ENDPOINTS: Partial<Record<BuiltInNetwork, string[]>> = {
+  'arbitrum': ['https://arbitrum-one-rpc.publicnode.com', 'https://arbitrum.drpc.org'],
+  'arbitrum-sepolia': ['https://arbitrum-sepolia-rpc.publicnode.com', 'https://arbitrum-sepolia.drpc.org'],
+  'arbitrum-nova': ['https://arbitrum-nova-rpc.publicnode.com'],
 };
 
-export const FACTORY_ADDRESSES: Record<SupportedNetwork, Address> = {
+export const EXPLORER_URLS: Partial<Record<BuiltInNetwork, string>> = {
+  'arbitrum': 'https://arbiscan.io',
+  'arbitrum-sepolia': 'https://sepolia.arbiscan.io',
+  'arbitrum-nova': 'https://nova.arbiscan.io',
+};
+
+// No factory is deployed on Nova or a fresh devnode; register one to enable factory features there
+export const FACTORY_ADDRESSES: Partial<Record<BuiltInNetwork, Address>> = {
   'arbitrum': '0xed088fd93517b0d0c3a3e4d2e2c419fb58570556' as Address,
   'arbitrum-sepolia': '0xed088fd93517b0d0c3a3e4d2e2c419fb58570556' as Address,
 };
 
 export const TOKEN_DECIMALS = 18;
 
-/**
- * Get RPC endpoint for network
- */
-export function getRpcEndpoint(network: SupportedNetwork): string {
-  return RPC_ENDPOINTS[network];
-}
+export const TOKEN_FEATURES = ['ownable', 'mintable', 'burnable', 'pausable'] as const;
+
+// Deployment parameter bounds
+export const MAX_TOKEN_NAME_LENGTH = 64;
+export const MAX_TOKEN_SYMBOL_LENGTH = 11;
+export const MAX_INITIAL_SUPPLY = BigInt('1000000000000000'); // whole tokens
 
 // ERC20 Stylus Contract ABI
 export const ERC20_ABI = [
@@ -193,6 +220,26 @@ export const ERC20_ABI = [
       { name: 'value', type: 'uint256', indexed: false },
     ],
   },
+  // Errors (the contract's Erc20Error)
+  {
+    type: 'error',
+    name: 'InsufficientBalance',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'have', type: 'uint256' },
+      { name: 'want', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'InsufficientAllowance',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'have', type: 'uint256' },
+      { name: 'want', type: 'uint256' },
+    ],
+  },
 ] as const;
 
 // Token Factory ABI
@@ -263,3 +310,90 @@ export const TOKEN_FACTORY_ABI = [
     ],
   },
 ] as const;
+
+// ArbWasm precompile (Stylus program activation)
+export const ARB_WASM_ADDRESS = '0x0000000000000000000000000000000000000071' as Address;
+
+export const ARB_WASM_ABI = [
+  {
+    type: 'function',
+    name: 'activateProgram',
+    inputs: [{ name: 'program', type: 'address' }],
+    outputs: [
+      { name: 'version', type: 'uint16' },
+      { name: 'dataFee', type: 'uint256' },
+    ],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'programVersion',
+    inputs: [{ name: 'program', type: 'address' }],
+    outputs: [{ name: 'version', type: 'uint16' }],
+    stateMutability: 'view',
+  },
+  { type: 'error', name: 'ProgramNotActivated', inputs: [] },
+  {
+    type: 'error',
+    name: 'ProgramNeedsUpgrade',
+    inputs: [
+      { name: 'version', type: 'uint16' },
+      { name: 'stylusVersion', type: 'uint16' },
+    ],
+  },
+  { type: 'error', name: 'ProgramExpired', inputs: [{ name: 'ageInSeconds', type: 'uint64' }] },
+] as const;
+
+// NodeInterface virtual contract (gas estimates split into L1 and L2 components)
+export const NODE_INTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8' as Address;
+
+export const NODE_INTERFACE_ABI = [
+  {
+    type: 'function',
+    name: 'gasEstimateComponents',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'contractCreation', type: 'bool' },
+      { name: 'data', type: 'bytes' },
+    ],
+    outputs: [
+      { name: 'gasEstimate', type: 'uint64' },
+      { name: 'gasEstimateForL1', type: 'uint64' },
+      { name: 'baseFee', type: 'uint256' },
+      { name: 'l1BaseFeeEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'payable',
+  },
+] as const;
+
+// Multicall3 (same address on every supported chain)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11' as Address;
+
+export const MULTICALL3_ABI = [
+  {
+    type: 'function',
+    name: 'aggregate3',
+    inputs: [
+      {
+        name: 'calls',
+        type: 'tuple[]',
+        components: [
+          { name: 'target', type: 'address' },
+          { name: 'allowFailure', type: 'bool' },
+          { name: 'callData', type: 'bytes' },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: 'returnData',
+        type: 'tuple[]',
+        components: [
+          { name: 'success', type: 'bool' },
+          { name: 'returnData', type: 'bytes' },
+        ],
+      },
+    ],
+    stateMutability: 'payable',
+  },
+] as const;
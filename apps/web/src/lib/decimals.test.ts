@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { formatTokenAmount, parseTokenAmount } from './decimals';
+
+const MAX_UINT256 = BigInt(2) ** BigInt(256) - BigInt(1);
+
+describe('parseTokenAmount / formatTokenAmount', () => {
+  const cases: { decimals: number; amounts: [string, bigint][] }[] = [
+    {
+      decimals: 0,
+      amounts: [['0', BigInt(0)], ['1', BigInt(1)], ['1000000', BigInt(1000000)]],
+    },
+    {
+      decimals: 6,
+      amounts: [
+        ['0', BigInt(0)],
+        ['0.000001', BigInt(1)],
+        ['1.5', BigInt(1500000)],
+        ['123456.654321', BigInt('123456654321')],
+      ],
+    },
+    {
+      decimals: 8,
+      amounts: [
+        ['0.00000001', BigInt(1)],
+        ['21000000', BigInt('2100000000000000')],
+        ['0.1', BigInt(10000000)],
+      ],
+    },
+    {
+      decimals: 18,
+      amounts: [
+        ['0.000000000000000001', BigInt(1)],
+        ['1', BigInt('1000000000000000000')],
+        ['1.000000000000000001', BigInt('1000000000000000001')],
+        ['999999999.999999999999999999', BigInt('999999999999999999999999999')],
+      ],
+    },
+  ];
+
+  for (const { decimals, amounts } of cases) {
+    describe(`${decimals} decimals`, () => {
+      it.each(amounts)('parses %s and formats it back', (amount, units) => {
+        expect(parseTokenAmount(amount, decimals)).toBe(units);
+        expect(formatTokenAmount(units, decimals)).toBe(amount);
+      });
+
+      it('round-trips base units through a formatted amount', () => {
+        for (const units of [BigInt(0), BigInt(1), BigInt(10) ** BigInt(decimals) - BigInt(1), MAX_UINT256]) {
+          expect(parseTokenAmount(formatTokenAmount(units, decimals), decimals)).toBe(units);
+        }
+      });
+
+      it('rejects more fractional digits than the token has', () => {
+        const tooPrecise = `1.${'0'.repeat(decimals)}1`;
+        expect(() => parseTokenAmount(tooPrecise, decimals)).toThrow(`more than ${decimals} decimal places`);
+      });
+
+      it('accepts trailing zeros beyond the token precision', () => {
+        expect(parseTokenAmount(`2.${'0'.repeat(decimals + 3)}`, decimals)).toBe(BigInt(2) * BigInt(10) ** BigInt(decimals));
+      });
+    });
+  }
+
+  it('rejects instead of rounding half a unit up or down', () => {
+    expect(() => parseTokenAmount('0.0000005', 6)).toThrow();
+    expect(() => parseTokenAmount('1.9999995', 6)).toThrow();
+    expect(() => parseTokenAmount('0.5', 0)).toThrow();
+    expect(() => parseTokenAmount('0.0000000000000000005', 18)).toThrow();
+  });
+
+  it('formats without trailing zeros', () => {
+    expect(formatTokenAmount(BigInt(1500000), 6)).toBe('1.5');
+    expect(formatTokenAmount(BigInt(100000000), 8)).toBe('1');
+  });
+
+  it('accepts a bare leading or trailing decimal point and surrounding whitespace', () => {
+    expect(parseTokenAmount('.5', 6)).toBe(BigInt(500000));
+    expect(parseTokenAmount('5.', 6)).toBe(BigInt(5000000));
+    expect(parseTokenAmount(' 2.25 ', 8)).toBe(BigInt(225000000));
+  });
+
+  it.each(['', '.', ' ', 'abc', '-1', '1e3', '1.2.3', '1,000', '0x10'])('rejects %j', (amount) => {
+    expect(() => parseTokenAmount(amount, 18)).toThrow('Invalid token amount');
+  });
+});
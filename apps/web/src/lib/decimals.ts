@@ -0,0 +1,67 @@
+/**
+ * ERC20 Token Decimals
+ *
+ * decimals() is immutable, so it is read once per token and network and
+ * shared by every read and write path.
+ */
+
+import type { Address } from 'viem';
+import { parseUnits, formatUnits } from 'viem';
+
+const decimalsCache = new Map<string, Promise<number>>();
+
+/**
+ * Resolve token decimals, reading them through `fetchDecimals` on first use.
+ * `networkKey` is anything that identifies the chain (network name or RPC endpoint).
+ */
+export function resolveDecimals(
+  contractAddress: Address,
+  networkKey: string,
+  fetchDecimals: () => Promise<number | bigint>
+): Promise<number> {
+  const key = `${networkKey}:${contractAddress.toLowerCase()}`;
+  const cached = decimalsCache.get(key);
+  if (cached) return cached;
+
+  const pending = fetchDecimals().then(Number);
+  decimalsCache.set(key, pending);
+  // Failed reads are not cached so the next call retries
+  pending.catch(() => decimalsCache.delete(key));
+  return pending;
+}
+
+/**
+ * Clear cached decimals (all tokens, or one token on one network)
+ */
+export function clearDecimalsCache(contractAddress?: Address, networkKey?: string): void {
+  if (contractAddress && networkKey) {
+    decimalsCache.delete(`${networkKey}:${contractAddress.toLowerCase()}`);
+  } else {
+    decimalsCache.clear();
+  }
+}
+
+/**
+ * Parse a human-readable amount into base units.
+ * Unlike parseUnits, amounts with more fractional digits than the token supports are rejected, not rounded.
+ */
+export function parseTokenAmount(amount: string, decimals: number): bigint {
+  const value = amount.trim();
+  if (!/^\d*\.?\d*$/.test(value) || value === '' || value === '.') {
+    throw new Error(`Invalid token amount: "${amount}"`);
+  }
+
+  const fraction = value.split('.')[1] ?? '';
+  if (fraction.replace(/0+$/, '').length > decimals) {
+    throw new Error(`Amount "${amount}" has more than ${decimals} decimal places`);
+  }
+
+  return parseUnits(value, decimals);
+}
+
+/**
+ * Format base units into a human-readable amount
+ */
+export function formatTokenAmount(value: bigint, decimals: number): string {
+  return formatUnits(value, decimals);
+}
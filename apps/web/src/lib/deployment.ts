@@ -2,16 +2,82 @@
  * ERC20 Token Deployment Functions
  */
 
-import { ethers } from 'ethers';
-import type { Address } from 'viem';
+import type { Address, Hash, PublicClient, WalletClient } from 'viem';
+import { BaseError, ContractFunctionRevertedError, parseEther } from 'viem';
 import { 
-  FACTORY_ADDRESSES, 
-  RPC_ENDPOINTS, 
   TOKEN_FACTORY_ABI, 
+  TOKEN_FEATURES,
+  MAX_TOKEN_NAME_LENGTH,
+  MAX_TOKEN_SYMBOL_LENGTH,
+  MAX_INITIAL_SUPPLY,
   ERC20_ABI,
+  ARB_WASM_ADDRESS,
+  ARB_WASM_ABI,
   type SupportedNetwork,
 } from './constants';
-import type { DeployTokenParams, DeployTokenResult } from './types';
+import { DeploymentSchemaError } from './errors';
+import { assertWalletChain } from './networks';
+import {
+  DEPLOYMENT_PROTOCOL_HEADER,
+  DEPLOYMENT_PROTOCOL_VERSION,
+  assertDeploymentProtocol,
+  parseDeployTokenResult,
+  parseDeploymentApiError,
+  parseDeploymentCreated,
+  parseDeploymentProgress,
+  parseUnsignedStylusDeployment,
+} from './protocol';
+import { toPublicClient, toWalletClient, toWritePublicClient, type TokenSigner } from './provider';
+import { readStored, writeStored } from './storage';
+import type { 
+  DeployTokenParams, 
+  DeployTokenParamsError,
+  DeployTokenResult, 
+  DeploymentProgress, 
+  DeploymentStageProgress,
+  DeploymentRecord,
+  DeploymentStatus,
+  UnsignedStylusDeployment,
+} from './types';
+
+const DEFAULT_POLL_INTERVAL = 2000;
+
+/**
+ * Check deployment parameters before anything is sent; returns one error per invalid field
+ */
+export function validateDeployTokenParams(params: DeployTokenParams): DeployTokenParamsError[] {
+  const errors: DeployTokenParamsError[] = [];
+  const name = params.name.trim();
+  const symbol = params.symbol.trim();
+  const supply = params.initialSupply.trim();
+
+  if (!name) {
+    errors.push({ field: 'name', message: 'Name is required' });
+  } else if (name.length > MAX_TOKEN_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `Name must be at most ${MAX_TOKEN_NAME_LENGTH} characters` });
+  }
+
+  if (!symbol) {
+    errors.push({ field: 'symbol', message: 'Symbol is required' });
+  } else if (symbol.length > MAX_TOKEN_SYMBOL_LENGTH) {
+    errors.push({ field: 'symbol', message: `Symbol must be at most ${MAX_TOKEN_SYMBOL_LENGTH} characters` });
+  } else if (!/^[A-Za-z0-9]+$/.test(symbol)) {
+    errors.push({ field: 'symbol', message: 'Symbol may only contain letters and digits' });
+  }
+
+  if (!/^\d+$/.test(supply)) {
+    errors.push({ field: 'initialSupply', message: 'Initial supply must be a whole number of tokens' });
+  } else if (BigInt(supply) < BigInt(1) || BigInt(supply) > MAX_INITIAL_SUPPLY) {
+    errors.push({ field: 'initialSupply', message: `Initial supply must be between 1 and ${MAX_INITIAL_SUPPLY.toLocaleString('en-US')}` });
+  }
+
+  const unknown = (params.features ?? []).filter((feature) => !(TOKEN_FEATURES as readonly string[]).includes(feature));
+  if (unknown.length > 0) {
+    errors.push({ field: 'features', message: `Unknown features: ${unknown.join(', ')}` });
+  }
+
+  return errors;
+}
 
 /**
  * Deploy an ERC20 token via the deployment API
@@ -24,63 +90,405 @@ export async function deployERC20TokenViaAPI(
     deploymentApiUrl: string;
   }
 ): Promise<DeployTokenResult> {
-  const { name, symbol, initialSupply, factoryAddress, privateKey, rpcEndpoint, deploymentApiUrl } = params;
+  const { name, symbol, initialSupply, features, factoryAddress, privateKey, rpcEndpoint, deploymentApiUrl } = params;
+
+  return requestDeploymentApi(
+    `${deploymentApiUrl}/deploy-token`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        symbol,
+        initialSupply,
+        features,
+        factoryAddress,
+        privateKey,
+        rpcEndpoint,
+      }),
+    },
+    parseDeployTokenResult,
+    'Deployment failed'
+  );
+}
+
+/**
+ * Deploy an ERC20 token via the deployment API, polling per-stage progress
+ * (deploy, activation, init, factory registration) until the pipeline finishes
+ */
+export async function deployERC20TokenStaged(
+  params: DeployTokenParams & {
+    privateKey: string;
+    rpcEndpoint: string;
+    deploymentApiUrl: string;
+  },
+  options: {
+    onProgress?: (progress: DeploymentProgress) => void;
+    pollInterval?: number;
+    signal?: AbortSignal;
+  } = {}
+): Promise<DeployTokenResult> {
+  const { name, symbol, initialSupply, features, factoryAddress, privateKey, rpcEndpoint, deploymentApiUrl } = params;
+  const { onProgress, pollInterval = DEFAULT_POLL_INTERVAL, signal } = options;
+
+  const { deploymentId } = await requestDeploymentApi(
+    `${deploymentApiUrl}/deployments`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        symbol,
+        initialSupply,
+        features,
+        factoryAddress,
+        privateKey,
+        rpcEndpoint,
+      }),
+      signal,
+    },
+    parseDeploymentCreated,
+    'Deployment failed'
+  );
+
+  for (;;) {
+    const progress = await getDeploymentProgress(deploymentApiUrl, deploymentId, signal);
+    onProgress?.(progress);
+
+    if (progress.status === 'error') {
+      throw new Error(progress.error || 'Deployment failed');
+    }
+    if (progress.status === 'success') {
+      return toDeployTokenResult(progress);
+    }
+
+    await sleep(pollInterval, signal);
+  }
+}
+
+/**
+ * Get the current progress of a staged deployment
+ */
+export async function getDeploymentProgress(
+  deploymentApiUrl: string,
+  deploymentId: string,
+  signal?: AbortSignal
+): Promise<DeploymentProgress> {
+  return requestDeploymentApi(
+    `${deploymentApiUrl}/deployments/${encodeURIComponent(deploymentId)}`,
+    { signal },
+    parseDeploymentProgress,
+    'Deployment status request failed'
+  );
+}
 
-  const response = await fetch(`${deploymentApiUrl}/deploy-token`, {
-    method: 'POST',
+/**
+ * Call the deployment API: sends the protocol version, rejects an API speaking
+ * another version, surfaces { error } responses and checks the body with `parse`
+ */
+async function requestDeploymentApi<T>(
+  url: string,
+  init: RequestInit,
+  parse: (body: unknown) => T,
+  failure: string
+): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
     headers: {
-      'Content-Type': 'application/json',
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      [DEPLOYMENT_PROTOCOL_HEADER]: String(DEPLOYMENT_PROTOCOL_VERSION),
     },
-    body: JSON.stringify({
-      name,
-      symbol,
-      initialSupply,
-      factoryAddress,
-      privateKey,
-      rpcEndpoint,
-    }),
   });
+  const version = response.headers.get(DEPLOYMENT_PROTOCOL_HEADER);
 
+  const body: unknown = await response.json().catch(() => undefined);
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(errorData.error || `Deployment failed with status ${response.status}`);
+    // Proxies and gateways answer errors without the header; only a version that is there can mismatch
+    if (version !== null) assertDeploymentProtocol(version);
+    throw new Error(parseDeploymentApiError(body) || `${failure} with status ${response.status}`);
+  }
+  assertDeploymentProtocol(version);
+  return parse(body);
+}
+
+function toDeployTokenResult(progress: DeploymentProgress): DeployTokenResult {
+  const stage = (name: DeploymentStageProgress['stage']) =>
+    progress.stages.find((s) => s.stage === name);
+
+  const txHash = stage('deploying')?.txHash;
+  if (!progress.tokenAddress) {
+    throw new DeploymentSchemaError('Deployment finished without a token address', 'tokenAddress');
+  }
+  if (!txHash) {
+    throw new DeploymentSchemaError('Deployment finished without a deployment transaction hash', 'stages');
   }
 
-  const result = await response.json();
-  
   return {
-    tokenAddress: result.tokenAddress as Address,
-    txHash: result.txHash || '0x',
-    success: result.success,
-    deployOutput: result.deployOutput,
-    initOutput: result.initOutput,
-    registerOutput: result.registerOutput,
+    tokenAddress: progress.tokenAddress,
+    txHash,
+    success: true,
+    deployOutput: stage('deploying')?.output,
+    initOutput: stage('initializing')?.output,
+    registerOutput: stage('registering')?.output,
+    stages: progress.stages,
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Deployment polling aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Deployment polling aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Request the unsigned Stylus deployment for a token from the deployment API.
+ * Only public parameters are sent; the caller signs and sends the transactions.
+ */
+export async function prepareStylusDeployment(
+  params: DeployTokenParams & {
+    from: Address;
+    rpcEndpoint: string;
+    deploymentApiUrl: string;
+  }
+): Promise<UnsignedStylusDeployment> {
+  const { name, symbol, initialSupply, features, from, rpcEndpoint, deploymentApiUrl } = params;
+
+  return requestDeploymentApi(
+    `${deploymentApiUrl}/prepare-deployment`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        symbol,
+        initialSupply,
+        features,
+        from,
+        rpcEndpoint,
+      }),
+    },
+    parseUnsignedStylusDeployment,
+    'Deployment preparation failed'
+  );
+}
+
+/**
+ * Deploy an ERC20 token with the connected wallet: the deployment API only
+ * builds the unsigned Stylus deployment, and every transaction (deploy,
+ * activation, init, factory registration) is signed by the wallet.
+ * Registration is skipped when there is no factory.
+ */
+export async function deployERC20TokenWithWallet(
+  params: DeployTokenParams & {
+    walletClient: WalletClient;
+    publicClient: PublicClient;
+    rpcEndpoint: string;
+    deploymentApiUrl: string;
+  },
+  options: {
+    onProgress?: (progress: DeploymentProgress) => void;
+  } = {}
+): Promise<DeployTokenResult> {
+  const { name, symbol, initialSupply, features, factoryAddress, walletClient, publicClient, rpcEndpoint, deploymentApiUrl } = params;
+  const { onProgress } = options;
+
+  const account = walletClient.account;
+  if (!account) {
+    throw new Error('Wallet client has no connected account');
+  }
+  await assertWalletChain(walletClient, publicClient);
+
+  const stages: DeploymentStageProgress[] = [
+    { stage: 'deploying', status: 'pending' },
+    { stage: 'activating', status: 'pending' },
+    { stage: 'initializing', status: 'pending' },
+    { stage: 'registering', status: 'pending' },
+  ];
+  let tokenAddress: Address | undefined;
+  const report = (stage: DeploymentStageProgress) => {
+    stages[stages.findIndex((s) => s.stage === stage.stage)] = stage;
+    onProgress?.({
+      deploymentId: stages[0].txHash ?? 'wallet',
+      status: stage.stage,
+      stages: [...stages],
+      tokenAddress,
+    });
   };
+
+  try {
+    // Deploy
+    report({ stage: 'deploying', status: 'running' });
+    const prepared = await prepareStylusDeployment({
+      name,
+      symbol,
+      initialSupply,
+      features,
+      from: account.address,
+      rpcEndpoint,
+      deploymentApiUrl,
+    });
+    const deployHash = await walletClient.sendTransaction({
+      account,
+      chain: walletClient.chain,
+      data: prepared.deployTransaction.data,
+      value: BigInt(prepared.deployTransaction.value ?? '0'),
+    });
+    const deployReceipt = await publicClient.waitForTransactionReceipt({ hash: deployHash });
+    if (deployReceipt.status !== 'success' || !deployReceipt.contractAddress) {
+      report({ stage: 'deploying', status: 'failed', txHash: deployHash });
+      throw new Error(`Deployment transaction ${deployHash} failed`);
+    }
+    tokenAddress = deployReceipt.contractAddress;
+    report({ stage: 'deploying', status: 'complete', txHash: deployHash, output: `Deployed to ${tokenAddress}` });
+
+    // Activate
+    report({ stage: 'activating', status: 'running' });
+    const activationHash = await activateProgramWithWallet(
+      tokenAddress, BigInt(prepared.activationValue), walletClient, publicClient
+    );
+    report({ stage: 'activating', status: 'complete', txHash: activationHash });
+
+    // Initialize
+    report({ stage: 'initializing', status: 'running' });
+    const initHash = await initializeTokenWithWallet(
+      tokenAddress, name, symbol, initialSupply, walletClient, publicClient
+    );
+    report({ stage: 'initializing', status: 'complete', txHash: initHash });
+
+    // Register
+    if (factoryAddress) {
+      report({ stage: 'registering', status: 'running' });
+      const registerHash = await registerTokenWithWallet(
+        tokenAddress, name, symbol, initialSupply, factoryAddress, walletClient, publicClient
+      );
+      report({ stage: 'registering', status: 'complete', txHash: registerHash });
+    } else {
+      report({ stage: 'registering', status: 'skipped', output: 'No factory address given' });
+    }
+
+    return {
+      tokenAddress,
+      txHash: deployHash,
+      success: true,
+      deployOutput: stages[0].output,
+      stages,
+    };
+  } catch (err) {
+    // Mark whichever stage was running as failed before passing the error on
+    const running = stages.find((s) => s.status === 'running');
+    if (running) {
+      report({ stage: running.stage, status: 'failed', output: err instanceof Error ? err.message : String(err) });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Activate a deployed Stylus program from a wallet client, paying
+ * `activationValue` wei (the data fee /prepare-deployment reports)
+ */
+export async function activateProgramWithWallet(
+  programAddress: Address,
+  activationValue: bigint,
+  walletClient: WalletClient,
+  publicClient: PublicClient
+): Promise<Hash> {
+  const account = walletClient.account;
+  if (!account) {
+    throw new Error('Wallet client has no connected account');
+  }
+  const hash = await walletClient.writeContract({
+    account,
+    chain: walletClient.chain,
+    address: ARB_WASM_ADDRESS,
+    abi: ARB_WASM_ABI,
+    functionName: 'activateProgram',
+    args: [programAddress],
+    value: activationValue,
+  });
+  await waitForSuccess(publicClient, hash, 'Activation');
+  return hash;
+}
+
+/**
+ * Initialize an already deployed ERC20 token from a wallet client
+ */
+export async function initializeTokenWithWallet(
+  contractAddress: Address,
+  name: string,
+  symbol: string,
+  initialSupply: string,
+  walletClient: WalletClient,
+  publicClient: PublicClient
+): Promise<Hash> {
+  return initializeToken(contractAddress, name, symbol, initialSupply, walletClient, publicClient);
 }
 
 /**
- * Initialize an already deployed ERC20 token
+ * Register token in factory from a wallet client
+ */
+export async function registerTokenWithWallet(
+  tokenAddress: Address,
+  name: string,
+  symbol: string,
+  initialSupply: string,
+  factoryAddress: Address,
+  walletClient: WalletClient,
+  publicClient: PublicClient
+): Promise<Hash> {
+  return registerTokenInFactory(tokenAddress, name, symbol, initialSupply, factoryAddress, walletClient, publicClient);
+}
+
+async function waitForSuccess(publicClient: PublicClient, hash: Hash, label: string): Promise<void> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`${label} transaction ${hash} reverted`);
+  }
+}
+
+/**
+ * Initialize an already deployed ERC20 token.
+ * `signer` is a private key, viem Account or WalletClient.
  */
 export async function initializeToken(
   contractAddress: Address,
   name: string,
   symbol: string,
   initialSupply: string,
-  privateKey: string,
-  rpcEndpoint: string
-): Promise<string> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
+  signer: TokenSigner,
+  client?: PublicClient | string
+): Promise<Hash> {
+  const publicClient = toWritePublicClient(signer, client);
+  const walletClient = toWalletClient(signer, publicClient);
+  // Keys and accounts send through publicClient; a wallet brings its own chain
+  if (walletClient === signer) {
+    await assertWalletChain(walletClient, publicClient);
+  }
 
-  const tx = await contract.init(name, symbol, BigInt(initialSupply));
-  const receipt = await tx.wait();
-  
-  return receipt.hash;
+  const hash = await walletClient.writeContract({
+    account: walletClient.account!,
+    chain: walletClient.chain ?? null,
+    address: contractAddress,
+    abi: ERC20_ABI,
+    functionName: 'init',
+    args: [name, symbol, BigInt(initialSupply)],
+  });
+  await waitForSuccess(publicClient, hash, 'Initialization');
+  return hash;
 }
 
 /**
- * Register token in factory
+ * Register token in factory.
+ * `signer` is a private key, viem Account or WalletClient.
  */
 export async function registerTokenInFactory(
   tokenAddress: Address,
@@ -88,18 +496,26 @@ export async function registerTokenInFactory(
   symbol: string,
   initialSupply: string,
   factoryAddress: Address,
-  privateKey: string,
-  rpcEndpoint: string
-): Promise<string> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const factory = new ethers.Contract(factoryAddress, TOKEN_FACTORY_ABI, wallet);
+  signer: TokenSigner,
+  client?: PublicClient | string
+): Promise<Hash> {
+  const publicClient = toWritePublicClient(signer, client);
+  const walletClient = toWalletClient(signer, publicClient);
+  // Keys and accounts send through publicClient; a wallet brings its own chain
+  if (walletClient === signer) {
+    await assertWalletChain(walletClient, publicClient);
+  }
 
-  const initialSupplyWei = ethers.parseEther(initialSupply);
-  const tx = await factory.registerToken(tokenAddress, name, symbol, initialSupplyWei);
-  const receipt = await tx.wait();
-  
-  return receipt.hash;
+  const hash = await walletClient.writeContract({
+    account: walletClient.account!,
+    chain: walletClient.chain ?? null,
+    address: factoryAddress,
+    abi: TOKEN_FACTORY_ABI,
+    functionName: 'registerToken',
+    args: [tokenAddress, name, symbol, parseEther(initialSupply)],
+  });
+  await waitForSuccess(publicClient, hash, 'Factory registration');
+  return hash;
 }
 
 /**
@@ -108,31 +524,122 @@ export async function registerTokenInFactory(
 export async function isTokenRegistered(
   tokenAddress: Address,
   factoryAddress: Address,
-  rpcEndpoint: string
+  client: PublicClient | string
 ): Promise<boolean> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const factory = new ethers.Contract(factoryAddress, TOKEN_FACTORY_ABI, provider);
+  const allTokens = await toPublicClient(client).readContract({
+    address: factoryAddress,
+    abi: TOKEN_FACTORY_ABI,
+    functionName: 'getAllDeployedTokens',
+  });
+  return allTokens.some(
+    (addr) => addr.toLowerCase() === tokenAddress.toLowerCase()
+  );
+}
 
+/**
+ * Whether the Stylus program at `programAddress` is activated and callable.
+ * ArbWasm reverts programVersion for programs that were never activated, need
+ * re-activation after a Stylus upgrade, or have expired.
+ */
+export async function isProgramActivated(
+  programAddress: Address,
+  client: PublicClient | string
+): Promise<boolean> {
   try {
-    const allTokens = await factory.getAllDeployedTokens();
-    return allTokens.some(
-      (addr: string) => addr.toLowerCase() === tokenAddress.toLowerCase()
-    );
-  } catch {
-    return false;
+    await toPublicClient(client).readContract({
+      address: ARB_WASM_ADDRESS,
+      abi: ARB_WASM_ABI,
+      functionName: 'programVersion',
+      args: [programAddress],
+    });
+    return true;
+  } catch (err) {
+    const revert = err instanceof BaseError
+      ? err.walk((e) => e instanceof ContractFunctionRevertedError)
+      : null;
+    const errorName = revert instanceof ContractFunctionRevertedError ? revert.data?.errorName : undefined;
+    if (errorName === 'ProgramNotActivated' || errorName === 'ProgramNeedsUpgrade' || errorName === 'ProgramExpired') {
+      return false;
+    }
+    throw err;
   }
 }
 
 /**
- * Get factory address for network
+ * Check which deployment stages a token has completed on-chain (code deployed,
+ * program activated, init called, registered in the factory). Read errors are
+ * thrown rather than reported as an incomplete stage. Without a factory the
+ * token is reported as not registered.
+ */
+export async function getDeploymentStatus(
+  tokenAddress: Address,
+  factoryAddress: Address | undefined,
+  client: PublicClient | string
+): Promise<DeploymentStatus> {
+  const publicClient = toPublicClient(client);
+  const code = await publicClient.getCode({ address: tokenAddress });
+  if (!code || code === '0x') {
+    return { deployed: false, activated: false, initialized: false, registered: false };
+  }
+
+  // An inactive program can't be called, so nothing past deployment can be read yet
+  if (!(await isProgramActivated(tokenAddress, publicClient))) {
+    return { deployed: true, activated: false, initialized: false, registered: false };
+  }
+
+  const [name, totalSupply, registered] = await Promise.all([
+    publicClient.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: 'name' }),
+    publicClient.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: 'totalSupply' }),
+    factoryAddress ? isTokenRegistered(tokenAddress, factoryAddress, publicClient) : false,
+  ]);
+
+  return {
+    deployed: true,
+    activated: true,
+    initialized: name !== '' && totalSupply > BigInt(0),
+    registered,
+  };
+}
+
+const deploymentRecordsKey = (network: SupportedNetwork) => `deployments:${network}`;
+
+/**
+ * List locally persisted deployment records for a network
+ */
+export function getDeploymentRecords(network: SupportedNetwork): DeploymentRecord[] {
+  return readStored<DeploymentRecord[]>(deploymentRecordsKey(network), []);
+}
+
+/**
+ * Get the persisted deployment record for a token
+ */
+export function getDeploymentRecord(
+  network: SupportedNetwork,
+  tokenAddress: Address
+): DeploymentRecord | undefined {
+  return getDeploymentRecords(network).find(
+    (record) => record.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+  );
+}
+
+/**
+ * Create or replace the persisted deployment record for a token
  */
-export function getFactoryAddress(network: SupportedNetwork): Address {
-  return FACTORY_ADDRESSES[network];
+export function saveDeploymentRecord(record: DeploymentRecord): void {
+  const others = getDeploymentRecords(record.network).filter(
+    (r) => r.tokenAddress.toLowerCase() !== record.tokenAddress.toLowerCase()
+  );
+  writeStored(deploymentRecordsKey(record.network), [...others, { ...record, updatedAt: Date.now() }]);
 }
 
 /**
- * Get RPC endpoint for network
+ * Remove the persisted deployment record for a token
  */
-export function getRpcEndpoint(network: SupportedNetwork): string {
-  return RPC_ENDPOINTS[network];
+export function removeDeploymentRecord(network: SupportedNetwork, tokenAddress: Address): void {
+  writeStored(
+    deploymentRecordsKey(network),
+    getDeploymentRecords(network).filter(
+      (r) => r.tokenAddress.toLowerCase() !== tokenAddress.toLowerCase()
+    )
+  );
 }
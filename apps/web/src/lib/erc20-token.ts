@@ -10,43 +10,59 @@ import {
   transfer, 
   mint, 
   burn,
+  getNetworkClient,
+  type SupportedNetwork,
   type TokenInfo,
+  type TokenSigner,
 } from '@cradle/erc20-stylus';
 import type { Address } from 'viem';
 
-const TOKEN_ADDRESS = process.env.NEXT_PUBLIC_TOKEN_ADDRESS as Address;
-const RPC_ENDPOINT = 'https://sepolia-rollup.arbitrum.io/rpc';
+/**
+ * A token on a network; defaults to the env-configured token
+ */
+export interface TokenRef {
+  address: Address;
+  network: SupportedNetwork;
+}
+
+const DEFAULT_TOKEN: TokenRef = {
+  address: process.env.NEXT_PUBLIC_TOKEN_ADDRESS as Address,
+  network: process.env.NEXT_PUBLIC_TOKEN_NETWORK || 'arbitrum-sepolia',
+};
 
-export async function fetchTokenInfo(): Promise<TokenInfo> {
-  return getTokenInfo(TOKEN_ADDRESS, RPC_ENDPOINT);
+export async function fetchTokenInfo(token: TokenRef = DEFAULT_TOKEN): Promise<TokenInfo> {
+  return getTokenInfo(token.address, getNetworkClient(token.network));
 }
 
-export async function fetchBalance(account: Address): Promise<string> {
-  const balance = await getBalance(TOKEN_ADDRESS, account, RPC_ENDPOINT);
+export async function fetchBalance(account: Address, token: TokenRef = DEFAULT_TOKEN): Promise<string> {
+  const balance = await getBalance(token.address, account, getNetworkClient(token.network));
   return balance.formatted;
 }
 
 export async function sendTokens(
   to: Address, 
   amount: string, 
-  privateKey: string
+  signer: TokenSigner,
+  token: TokenRef = DEFAULT_TOKEN
 ): Promise<string> {
-  return transfer(TOKEN_ADDRESS, to, amount, privateKey, RPC_ENDPOINT);
+  return transfer(token.address, to, amount, signer, getNetworkClient(token.network));
 }
 
 export async function mintTokens(
   to: Address, 
   amount: string, 
-  privateKey: string
+  signer: TokenSigner,
+  token: TokenRef = DEFAULT_TOKEN
 ): Promise<string> {
-  return mint(TOKEN_ADDRESS, to, amount, privateKey, RPC_ENDPOINT);
+  return mint(token.address, to, amount, signer, getNetworkClient(token.network));
 }
 
 export async function burnTokens(
   amount: string, 
-  privateKey: string
+  signer: TokenSigner,
+  token: TokenRef = DEFAULT_TOKEN
 ): Promise<string> {
-  return burn(TOKEN_ADDRESS, amount, privateKey, RPC_ENDPOINT);
+  return burn(token.address, amount, signer, getNetworkClient(token.network));
 }
 
 export const TOKEN_CONFIG = {
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { encodeErrorResult, getAddress, parseAbi } from 'viem';
+import { ERC20_ABI } from './constants';
+import { decodeTokenError, TokenContractError } from './errors';
+
+const FROM = getAddress('0x00000000000000000000000000000000000000a1');
+const SPENDER = getAddress('0x00000000000000000000000000000000000000b2');
+const ERROR_STRING_ABI = parseAbi(['error Error(string message)']);
+
+const revertString = (message: string) =>
+  encodeErrorResult({ abi: ERROR_STRING_ABI, errorName: 'Error', args: [message] });
+
+// Revert data as viem nests it under the call error
+const reverted = (data: string) => ({ shortMessage: 'Execution reverted', cause: { data } });
+
+describe('decodeTokenError', () => {
+  it('decodes InsufficientBalance with formatted amounts', () => {
+    const data = encodeErrorResult({
+      abi: ERC20_ABI,
+      errorName: 'InsufficientBalance',
+      args: [FROM, BigInt(1500000), BigInt(2000000)],
+    });
+    const error = decodeTokenError(reverted(data), 6);
+    expect(error).toBeInstanceOf(TokenContractError);
+    expect(error.reason).toEqual({
+      kind: 'insufficient-balance',
+      from: FROM,
+      have: BigInt(1500000),
+      want: BigInt(2000000),
+      formattedHave: '1.5',
+      formattedWant: '2',
+    });
+    expect(error.message).toBe('Insufficient balance: 1.5 available, 2 required');
+  });
+
+  it('decodes InsufficientAllowance from revert data nested in provider errors', () => {
+    const data = encodeErrorResult({
+      abi: ERC20_ABI,
+      errorName: 'InsufficientAllowance',
+      args: [FROM, SPENDER, BigInt(0), BigInt(10) ** BigInt(18)],
+    });
+    const error = decodeTokenError({ message: 'call failed', error: { data: { data } } }, 18);
+    expect(error.reason).toMatchObject({ kind: 'insufficient-allowance', owner: FROM, spender: SPENDER, formattedWant: '1' });
+  });
+
+  it.each([
+    ['Pausable: paused', 'paused'],
+    ['Ownable: caller is not the owner', 'not-owner'],
+  ])('maps the %j revert string exactly', (message, kind) => {
+    expect(decodeTokenError(reverted(revertString(message)), 18).reason).toEqual({ kind });
+    // Providers that decode the string themselves report it as the reason
+    expect(decodeTokenError({ message: 'execution reverted', reason: message }, 18).reason).toEqual({ kind });
+  });
+
+  it.each([
+    'Ownable: new owner is the zero address',
+    'Not paused yet',
+    'constructor',
+  ])('keeps other revert strings such as %j as they are', (message) => {
+    expect(decodeTokenError(reverted(revertString(message)), 18).reason).toEqual({ kind: 'unknown', message });
+    expect(decodeTokenError({ message, reason: message }, 18).reason).toEqual({ kind: 'unknown', message });
+  });
+
+  it('recognises wallet rejections', () => {
+    expect(decodeTokenError(new Error('User rejected the request.'), 18).reason).toEqual({ kind: 'user-rejected' });
+  });
+
+  it('returns a TokenContractError unchanged', () => {
+    const error = new TokenContractError({ kind: 'paused' });
+    expect(decodeTokenError(error, 18)).toBe(error);
+  });
+});
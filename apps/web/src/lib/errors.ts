@@ -0,0 +1,250 @@
+/**
+ * ERC20 Token Errors
+ *
+ * Decodes reverts from viem and wallet providers into a typed, human-readable error.
+ */
+
+import { decodeErrorResult } from 'viem';
+import type { Address, Hex } from 'viem';
+import { ERC20_ABI } from './constants';
+import { formatTokenAmount } from './decimals';
+
+/**
+ * Decoded reason a token call failed
+ */
+export type TokenErrorReason =
+  | {
+      kind: 'insufficient-balance';
+      from: Address;
+      have: bigint;
+      want: bigint;
+      formattedHave: string;
+      formattedWant: string;
+    }
+  | {
+      kind: 'insufficient-allowance';
+      owner: Address;
+      spender: Address;
+      have: bigint;
+      want: bigint;
+      formattedHave: string;
+      formattedWant: string;
+    }
+  | { kind: 'paused' }
+  | { kind: 'not-owner' }
+  | { kind: 'user-rejected' }
+  | { kind: 'unknown'; message: string };
+
+// Revert strings of contracts that don't use custom errors, matched exactly
+// (a message that merely mentions the owner may be about something else)
+const REVERT_STRINGS = new Map<string, 'paused' | 'not-owner'>([
+  ['Pausable: paused', 'paused'],
+  ['Ownable: caller is not the owner', 'not-owner'],
+]);
+
+/**
+ * Error thrown by token reads and writes, carrying the decoded reason
+ */
+export class TokenContractError extends Error {
+  readonly reason: TokenErrorReason;
+  readonly cause?: unknown;
+
+  constructor(reason: TokenErrorReason, cause?: unknown) {
+    super(describeReason(reason));
+    this.name = 'TokenContractError';
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when a network name is neither built in nor registered
+ */
+export class UnsupportedNetworkError extends Error {
+  readonly network: string;
+
+  constructor(network: string) {
+    super(`Unsupported network "${network}"; register it with registerNetwork() first`);
+    this.name = 'UnsupportedNetworkError';
+    this.network = network;
+  }
+}
+
+/**
+ * Thrown when a wallet is connected to a different chain than the one being written to
+ */
+export class NetworkMismatchError extends Error {
+  readonly expectedChainId: number;
+  readonly actualChainId: number;
+
+  constructor(expectedChainId: number, actualChainId: number, network?: string) {
+    const target = network ? `${network} (chain ${expectedChainId})` : `chain ${expectedChainId}`;
+    super(`Wallet is connected to chain ${actualChainId}, switch to ${target} to continue`);
+    this.name = 'NetworkMismatchError';
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+/**
+ * Thrown when a deployment API request or response doesn't match the protocol schema
+ */
+export class DeploymentSchemaError extends Error {
+  readonly field: string;
+
+  constructor(message: string, field: string) {
+    super(message);
+    this.name = 'DeploymentSchemaError';
+    this.field = field;
+  }
+}
+
+/**
+ * Thrown when the deployment API and this package speak different protocol versions
+ */
+export class DeploymentProtocolError extends Error {
+  readonly expectedVersion: number;
+  readonly actualVersion?: string;
+
+  constructor(expectedVersion: number, actualVersion?: string) {
+    super(actualVersion === undefined
+      ? `Deployment API did not report a protocol version; expected version ${expectedVersion}`
+      : `Deployment API speaks protocol version ${actualVersion}, but this client needs version ${expectedVersion}`);
+    this.name = 'DeploymentProtocolError';
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+/**
+ * Decode any error thrown while calling the token into a TokenContractError.
+ * `decimals` is used to format amounts in balance and allowance errors.
+ */
+export function decodeTokenError(err: unknown, decimals: number): TokenContractError {
+  if (err instanceof TokenContractError) return err;
+
+  const messages = collectMessages(err);
+  if (messages.some((m) => /user (rejected|denied)|rejected the request|ACTION_REJECTED/i.test(m))) {
+    return new TokenContractError({ kind: 'user-rejected' }, err);
+  }
+
+  for (const data of collectRevertData(err)) {
+    const reason = decodeRevertData(data, decimals);
+    if (reason) return new TokenContractError(reason, err);
+  }
+
+  // Revert strings providers decoded without passing the raw data on
+  for (const reason of collectRevertReasons(err)) {
+    const kind = REVERT_STRINGS.get(reason.trim());
+    if (kind) return new TokenContractError({ kind }, err);
+  }
+
+  return new TokenContractError({ kind: 'unknown', message: messages[0] || String(err) }, err);
+}
+
+function describeReason(reason: TokenErrorReason): string {
+  switch (reason.kind) {
+    case 'insufficient-balance':
+      return `Insufficient balance: ${reason.formattedHave} available, ${reason.formattedWant} required`;
+    case 'insufficient-allowance':
+      return `Insufficient allowance for ${reason.spender}: ${reason.formattedHave} approved, ${reason.formattedWant} required`;
+    case 'paused':
+      return 'Token transfers are paused';
+    case 'not-owner':
+      return 'Only the token owner can perform this action';
+    case 'user-rejected':
+      return 'Transaction was rejected in the wallet';
+    case 'unknown':
+      return reason.message;
+  }
+}
+
+function decodeRevertData(data: Hex, decimals: number): TokenErrorReason | undefined {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: ERC20_ABI, data });
+  } catch {
+    return undefined;
+  }
+
+  // Built-in Error(string) reverts are decoded too, though not typed by the ABI
+  if ((decoded.errorName as string) === 'Error') {
+    const [message] = decoded.args as unknown as readonly [string];
+    const kind = REVERT_STRINGS.get(message.trim());
+    return kind ? { kind } : { kind: 'unknown', message };
+  }
+
+  switch (decoded.errorName) {
+    case 'InsufficientBalance': {
+      const [from, have, want] = decoded.args;
+      return {
+        kind: 'insufficient-balance',
+        from,
+        have,
+        want,
+        formattedHave: formatTokenAmount(have, decimals),
+        formattedWant: formatTokenAmount(want, decimals),
+      };
+    }
+    case 'InsufficientAllowance': {
+      const [owner, spender, have, want] = decoded.args;
+      return {
+        kind: 'insufficient-allowance',
+        owner,
+        spender,
+        have,
+        want,
+        formattedHave: formatTokenAmount(have, decimals),
+        formattedWant: formatTokenAmount(want, decimals),
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Walk `cause` chains (viem) and nested `error`/`info` objects (ethers, EIP-1193 providers)
+function walk(err: unknown, visit: (value: Record<string, unknown>) => void, depth = 0): void {
+  if (!err || typeof err !== 'object' || depth > 8) return;
+  const value = err as Record<string, unknown>;
+  visit(value);
+  walk(value.cause, visit, depth + 1);
+  walk(value.error, visit, depth + 1);
+  walk(value.info, visit, depth + 1);
+}
+
+function collectRevertData(err: unknown): Hex[] {
+  const found: Hex[] = [];
+  const add = (candidate: unknown) => {
+    if (typeof candidate === 'string' && /^0x[0-9a-fA-F]{8,}$/.test(candidate)) {
+      found.push(candidate as Hex);
+    }
+  };
+  walk(err, (value) => {
+    add(value.raw);
+    add(value.data);
+    if (value.data && typeof value.data === 'object') {
+      add((value.data as Record<string, unknown>).data);
+    }
+  });
+  return found;
+}
+
+function collectRevertReasons(err: unknown): string[] {
+  const reasons: string[] = [];
+  walk(err, (value) => {
+    if (typeof value.reason === 'string') reasons.push(value.reason);
+  });
+  return reasons;
+}
+
+function collectMessages(err: unknown): string[] {
+  const messages: string[] = [];
+  walk(err, (value) => {
+    for (const key of ['shortMessage', 'reason', 'details', 'message']) {
+      if (typeof value[key] === 'string' && value[key]) messages.push(value[key] as string);
+    }
+  });
+  if (typeof err === 'string') messages.push(err);
+  return messages;
+}
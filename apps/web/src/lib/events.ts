@@ -0,0 +1,193 @@
+/**
+ * ERC20 Token Event History
+ */
+
+import { zeroAddress } from 'viem';
+import type { Abi, Address, Hash, PublicClient } from 'viem';
+import { ERC20_ABI } from './constants';
+import { getClientKey, toPublicClient } from './provider';
+import type { TransferEvent, ApprovalEvent, EventHistoryOptions } from './types';
+
+// Most public RPCs cap eth_getLogs ranges at 10k blocks or fewer
+const DEFAULT_CHUNK_SIZE = BigInt(10_000);
+
+// Errors RPCs return when a range has too many logs or spans too many blocks
+const RANGE_LIMIT_ERROR = /too many (results|logs|blocks)|more than \d+ (results|logs)|range (is )?too (large|wide|big)|exceed(s|ed)? (the )?max(imum)? (block )?range|block range|response size|limit exceeded/i;
+
+const deploymentBlocks = new Map<string, Promise<bigint>>();
+
+type EventArgs = Record<string, Address | undefined>;
+export type DecodedLog = { args: unknown; blockNumber: bigint; transactionHash: Hash; logIndex: number };
+
+/**
+ * Get Transfer events, classified as mints and burns when either side is the zero address
+ */
+export async function getTransferHistory(
+  contractAddress: Address,
+  client: PublicClient | string,
+  options: EventHistoryOptions = {}
+): Promise<TransferEvent[]> {
+  const publicClient = toPublicClient(client);
+  const { account } = options;
+
+  // Topics can't OR across positions, so sent and received are queried separately
+  const filters: EventArgs[] = account ? [{ from: account }, { to: account }] : [{}];
+  const logs = await getEventLogs(publicClient, contractAddress, ERC20_ABI, 'Transfer', filters, options);
+
+  return logs.map((log) => {
+    const { from, to, value } = log.args as { from: Address; to: Address; value: bigint };
+    return {
+      kind: from === zeroAddress ? 'mint' : to === zeroAddress ? 'burn' : 'transfer',
+      from,
+      to,
+      value,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    };
+  });
+}
+
+/**
+ * Get Approval events
+ */
+export async function getApprovalHistory(
+  contractAddress: Address,
+  client: PublicClient | string,
+  options: EventHistoryOptions = {}
+): Promise<ApprovalEvent[]> {
+  const publicClient = toPublicClient(client);
+  const { account } = options;
+
+  const filters: EventArgs[] = account ? [{ owner: account }, { spender: account }] : [{}];
+  const logs = await getEventLogs(publicClient, contractAddress, ERC20_ABI, 'Approval', filters, options);
+
+  return logs.map((log) => {
+    const { owner, spender, value } = log.args as { owner: Address; spender: Address; value: bigint };
+    return {
+      kind: 'approval',
+      owner,
+      spender,
+      value,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    };
+  });
+}
+
+/**
+ * Find the block a contract was deployed in, by binary search over its code
+ * at past blocks (cached per contract and chain). Needs an RPC that serves
+ * historical state; pass `fromBlock` to the history functions otherwise.
+ */
+export function findDeploymentBlock(contractAddress: Address, client: PublicClient | string): Promise<bigint> {
+  const key = `${getClientKey(client)}:${contractAddress.toLowerCase()}`;
+  const cached = deploymentBlocks.get(key);
+  if (cached) return cached;
+
+  const publicClient = toPublicClient(client);
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await publicClient.getCode({ address: contractAddress, blockNumber });
+    return code !== undefined && code !== '0x';
+  };
+
+  const pending = (async () => {
+    let high = await publicClient.getBlockNumber();
+    if (!(await hasCode(high))) {
+      throw new Error(`No contract code found at ${contractAddress}`);
+    }
+    let low = BigInt(0);
+    while (low < high) {
+      const middle = low + (high - low) / BigInt(2);
+      if (await hasCode(middle)) {
+        high = middle;
+      } else {
+        low = middle + BigInt(1);
+      }
+    }
+    return low;
+  })();
+
+  deploymentBlocks.set(key, pending);
+  pending.catch(() => deploymentBlocks.delete(key));
+  return pending;
+}
+
+/**
+ * Fetch decoded logs for each filter across the block range in chunks,
+ * merged, de-duplicated and sorted oldest first. Without `fromBlock` the
+ * range starts at the contract's deployment block.
+ */
+export async function getEventLogs(
+  publicClient: PublicClient,
+  contractAddress: Address,
+  abi: Abi,
+  eventName: string,
+  filters: EventArgs[],
+  options: EventHistoryOptions
+): Promise<DecodedLog[]> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  const fromBlock = options.fromBlock ?? await findDeploymentBlock(contractAddress, publicClient);
+  const toBlock = options.toBlock ?? await publicClient.getBlockNumber();
+
+  const seen = new Map<string, DecodedLog>();
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = start + chunkSize - BigInt(1) < toBlock ? start + chunkSize - BigInt(1) : toBlock;
+    for (const args of filters) {
+      const logs = await getLogsAdaptive(publicClient, contractAddress, abi, eventName, args, start, end);
+      for (const log of logs) {
+        seen.set(`${log.transactionHash}:${log.logIndex}`, log);
+      }
+    }
+  }
+
+  return Array.from(seen.values()).sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber ? -1 : 1
+  );
+}
+
+/**
+ * Fetch logs for one range, halving the range when the RPC rejects it for
+ * too many results or too large a range; any other error is thrown
+ */
+async function getLogsAdaptive(
+  publicClient: PublicClient,
+  contractAddress: Address,
+  abi: Abi,
+  eventName: string,
+  args: EventArgs,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<DecodedLog[]> {
+  try {
+    const logs = await publicClient.getContractEvents({
+      address: contractAddress,
+      abi,
+      eventName,
+      args,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+    // Pending logs have no block yet
+    return logs.filter((log) => log.blockNumber !== null && log.transactionHash !== null) as DecodedLog[];
+  } catch (err) {
+    if (toBlock <= fromBlock || !isRangeLimitError(err)) throw err;
+    const middle = fromBlock + (toBlock - fromBlock) / BigInt(2);
+    const first = await getLogsAdaptive(publicClient, contractAddress, abi, eventName, args, fromBlock, middle);
+    const second = await getLogsAdaptive(publicClient, contractAddress, abi, eventName, args, middle + BigInt(1), toBlock);
+    return [...first, ...second];
+  }
+}
+
+function isRangeLimitError(err: unknown): boolean {
+  const messages: string[] = [];
+  // viem wraps the RPC's message in `details` on a nested cause
+  for (let e: unknown = err; e instanceof Error; e = (e as { cause?: unknown }).cause) {
+    messages.push(e.message, (e as { details?: string }).details ?? '');
+  }
+  return messages.some((message) => RANGE_LIMIT_ERROR.test(message));
+}
@@ -0,0 +1,122 @@
+/**
+ * ERC20 Token Factory Registry
+ */
+
+import type { Address, PublicClient } from 'viem';
+import { TOKEN_FACTORY_ABI } from './constants';
+import { getEventLogs } from './events';
+import { toPublicClient } from './provider';
+import type { FactoryToken, FactoryTokenPage, EventHistoryOptions } from './types';
+
+/**
+ * Get the number of tokens registered in the factory
+ */
+export async function getTotalTokensDeployed(
+  factoryAddress: Address,
+  client: PublicClient | string
+): Promise<bigint> {
+  return toPublicClient(client).readContract({
+    address: factoryAddress,
+    abi: TOKEN_FACTORY_ABI,
+    functionName: 'getTotalTokensDeployed',
+  });
+}
+
+/**
+ * Get the addresses of all tokens registered in the factory, newest first
+ */
+export async function getFactoryTokenAddresses(
+  factoryAddress: Address,
+  client: PublicClient | string
+): Promise<Address[]> {
+  const addresses = await toPublicClient(client).readContract({
+    address: factoryAddress,
+    abi: TOKEN_FACTORY_ABI,
+    functionName: 'getAllDeployedTokens',
+  });
+  return [...addresses].reverse();
+}
+
+/**
+ * Get the factory's metadata for a registered token
+ */
+export async function getFactoryTokenInfo(
+  factoryAddress: Address,
+  tokenAddress: Address,
+  client: PublicClient | string
+): Promise<FactoryToken> {
+  const [owner, name, symbol, initialSupply, createdAt] = await toPublicClient(client).readContract({
+    address: factoryAddress,
+    abi: TOKEN_FACTORY_ABI,
+    functionName: 'getTokenInfo',
+    args: [tokenAddress],
+  });
+
+  return { address: tokenAddress, owner, name, symbol, initialSupply, createdAt };
+}
+
+/**
+ * Get one page of registered tokens with metadata, newest first.
+ * Pass `addresses` to page through a pre-filtered list (e.g. by creator).
+ */
+export async function getFactoryTokens(
+  factoryAddress: Address,
+  client: PublicClient | string,
+  options: { offset?: number; limit?: number; addresses?: Address[] } = {}
+): Promise<FactoryTokenPage> {
+  const publicClient = toPublicClient(client);
+  const { offset = 0, limit = 20 } = options;
+  const addresses = options.addresses ?? await getFactoryTokenAddresses(factoryAddress, publicClient);
+
+  const tokens = await Promise.all(
+    addresses
+      .slice(offset, offset + limit)
+      .map((address) => getFactoryTokenInfo(factoryAddress, address, publicClient))
+  );
+
+  return { tokens, offset, total: addresses.length };
+}
+
+/**
+ * Get the addresses of tokens created by an account, from TokenCreated logs, newest first
+ */
+export async function getTokensByCreator(
+  factoryAddress: Address,
+  creator: Address,
+  client: PublicClient | string,
+  options: Omit<EventHistoryOptions, 'account'> = {}
+): Promise<Address[]> {
+  const logs = await getEventLogs(
+    toPublicClient(client),
+    factoryAddress,
+    TOKEN_FACTORY_ABI,
+    'TokenCreated',
+    [{ creator }],
+    options
+  );
+  return logs.map((log) => (log.args as { tokenAddress: Address }).tokenAddress).reverse();
+}
+
+/**
+ * Find registered tokens whose name or symbol contains `query` (case-insensitive)
+ */
+export async function searchFactoryTokens(
+  factoryAddress: Address,
+  query: string,
+  client: PublicClient | string,
+  options: { addresses?: Address[]; batchSize?: number } = {}
+): Promise<FactoryToken[]> {
+  const publicClient = toPublicClient(client);
+  const { batchSize = 20 } = options;
+  const addresses = options.addresses ?? await getFactoryTokenAddresses(factoryAddress, publicClient);
+  const needle = query.trim().toLowerCase();
+
+  const matches: FactoryToken[] = [];
+  for (let offset = 0; offset < addresses.length; offset += batchSize) {
+    const { tokens } = await getFactoryTokens(factoryAddress, publicClient, { offset, limit: batchSize, addresses });
+    matches.push(...tokens.filter((token) =>
+      token.name.toLowerCase().includes(needle) || token.symbol.toLowerCase().includes(needle)
+    ));
+  }
+  return matches;
+}
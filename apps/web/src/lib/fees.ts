@@ -0,0 +1,163 @@
+/**
+ * ERC20 Token Fee Estimation
+ *
+ * Arbitrum charges every transaction for L2 execution plus posting its
+ * calldata to L1. The NodeInterface splits a gas estimate into both parts.
+ */
+
+import { formatEther } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import { NODE_INTERFACE_ADDRESS, NODE_INTERFACE_ABI, TOKEN_DECIMALS } from './constants';
+import { parseTokenAmount } from './decimals';
+import { decodeTokenError } from './errors';
+import {
+  encodeTokenWrite,
+  getTokenDecimals,
+  type TokenWriteArgs,
+  type TokenWriteCall,
+  type TokenWriteFunction,
+} from './interactions';
+import { toPublicClient } from './provider';
+import type { FeeEstimate } from './types';
+
+/**
+ * Estimate gas and fees for calling a token write function from `from`.
+ * Reverts surface as a TokenContractError, so a preview fails before the wallet opens.
+ */
+export async function estimateTokenWrite<F extends TokenWriteFunction>(
+  contractAddress: Address,
+  functionName: F,
+  args: TokenWriteArgs<F>,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  const publicClient = toPublicClient(client);
+  // A generic pair doesn't narrow to the union member for F on its own
+  const data = encodeTokenWrite({ functionName, args } as TokenWriteCall);
+
+  try {
+    const { result } = await publicClient.simulateContract({
+      address: NODE_INTERFACE_ADDRESS,
+      abi: NODE_INTERFACE_ABI,
+      functionName: 'gasEstimateComponents',
+      args: [contractAddress, false, data],
+      account: from,
+    });
+    const [gasEstimate, gasEstimateForL1, baseFee] = result;
+    return toFeeEstimate(gasEstimate, gasEstimateForL1, baseFee, true);
+  } catch (err) {
+    // Only fall back when the NodeInterface itself is missing; token reverts are reported
+    if (!isMissingNodeInterface(err)) {
+      throw decodeTokenError(err, await getTokenDecimals(contractAddress, client).catch(() => TOKEN_DECIMALS));
+    }
+  }
+
+  try {
+    const [gas, gasPrice] = await Promise.all([
+      publicClient.estimateGas({ account: from, to: contractAddress, data }),
+      publicClient.getGasPrice(),
+    ]);
+    return toFeeEstimate(gas, BigInt(0), gasPrice, false);
+  } catch (err) {
+    throw decodeTokenError(err, await getTokenDecimals(contractAddress, client).catch(() => TOKEN_DECIMALS));
+  }
+}
+
+/**
+ * Estimate fees for transferring tokens
+ */
+export async function estimateTransfer(
+  contractAddress: Address,
+  to: Address,
+  amount: string,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  const decimals = await getTokenDecimals(contractAddress, client);
+  return estimateTokenWrite(contractAddress, 'transfer', [to, parseTokenAmount(amount, decimals)], from, client);
+}
+
+/**
+ * Estimate fees for approving a spender
+ */
+export async function estimateApprove(
+  contractAddress: Address,
+  spender: Address,
+  amount: string,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  const decimals = await getTokenDecimals(contractAddress, client);
+  return estimateTokenWrite(contractAddress, 'approve', [spender, parseTokenAmount(amount, decimals)], from, client);
+}
+
+/**
+ * Estimate fees for minting tokens (owner only)
+ */
+export async function estimateMint(
+  contractAddress: Address,
+  to: Address,
+  amount: string,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  const decimals = await getTokenDecimals(contractAddress, client);
+  return estimateTokenWrite(contractAddress, 'mint', [to, parseTokenAmount(amount, decimals)], from, client);
+}
+
+/**
+ * Estimate fees for burning tokens
+ */
+export async function estimateBurn(
+  contractAddress: Address,
+  amount: string,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  const decimals = await getTokenDecimals(contractAddress, client);
+  return estimateTokenWrite(contractAddress, 'burn', [parseTokenAmount(amount, decimals)], from, client);
+}
+
+/**
+ * Estimate fees for pausing the token (owner only)
+ */
+export async function estimatePause(
+  contractAddress: Address,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  return estimateTokenWrite(contractAddress, 'pause', [], from, client);
+}
+
+/**
+ * Estimate fees for unpausing the token (owner only)
+ */
+export async function estimateUnpause(
+  contractAddress: Address,
+  from: Address,
+  client: PublicClient | string
+): Promise<FeeEstimate> {
+  return estimateTokenWrite(contractAddress, 'unpause', [], from, client);
+}
+
+function toFeeEstimate(gasLimit: bigint, l1Gas: bigint, gasPrice: bigint, hasL1Breakdown: boolean): FeeEstimate {
+  const l2Gas = gasLimit - l1Gas;
+  const totalFee = gasLimit * gasPrice;
+  return {
+    gasLimit,
+    l1Gas,
+    l2Gas,
+    gasPrice,
+    l1Fee: l1Gas * gasPrice,
+    l2Fee: l2Gas * gasPrice,
+    totalFee,
+    formattedTotalFee: formatEther(totalFee),
+    hasL1Breakdown,
+  };
+}
+
+// Calls to the virtual NodeInterface address return empty data on non-Arbitrum chains
+function isMissingNodeInterface(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /returned no data|ContractFunctionZeroDataError|method not found|does not exist/i.test(message);
+}
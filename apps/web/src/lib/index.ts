@@ -27,40 +27,286 @@
 export {
   CHAIN_IDS,
   RPC_ENDPOINTS,
+  FALLBACK_RPC_ENDPOINTS,
+  EXPLORER_URLS,
   FACTORY_ADDRESSES,
   TOKEN_DECIMALS,
+  TOKEN_FEATURES,
+  MAX_TOKEN_NAME_LENGTH,
+  MAX_TOKEN_SYMBOL_LENGTH,
+  MAX_INITIAL_SUPPLY,
   ERC20_ABI,
   TOKEN_FACTORY_ABI,
+  ARB_WASM_ADDRESS,
+  ARB_WASM_ABI,
+  MULTICALL3_ADDRESS,
+  MULTICALL3_ABI,
+  NODE_INTERFACE_ADDRESS,
+  NODE_INTERFACE_ABI,
+  type BuiltInNetwork,
   type SupportedNetwork,
 } from './constants';
 
+// Network registry
+export {
+  registerNetwork,
+  unregisterNetwork,
+  subscribeNetworks,
+  isSupportedNetwork,
+  getNetwork,
+  getNetworks,
+  getNetworkByChainId,
+  getChainId,
+  getRpcEndpoint,
+  getFactoryAddress,
+  getExplorerUrl,
+  getNetworkChain,
+  assertNetworkChain,
+  assertWalletChain,
+  type NetworkConfig,
+} from './networks';
+
 // Types
 export type {
   TokenInfo,
   BalanceInfo,
   AllowanceInfo,
   TransactionState,
+  TransactionOperation,
+  WriteOptions,
+  TransactionRecord,
+  RpcEndpointHealth,
+  UseRpcHealthOptions,
+  UseRpcHealthReturn,
+  UseTransactionHistoryOptions,
+  UseTransactionHistoryReturn,
+  FeeEstimate,
   AsyncState,
+  TransferEvent,
+  ApprovalEvent,
+  TokenActivity,
+  EventHistoryOptions,
+  UseTokenActivityOptions,
+  UseTokenActivityReturn,
+  FactoryToken,
+  FactoryTokenPage,
+  UseFactoryTokensOptions,
+  UseFactoryTokensReturn,
+  WatchlistEntry,
+  UseTokenWatchlistReturn,
+  AllowanceEntry,
+  UseTokenAllowancesOptions,
+  UseTokenAllowancesReturn,
+  BatchTransferRow,
+  BatchRowError,
+  BatchParseResult,
+  BatchSummary,
+  BatchRowResult,
+  UseBatchTransferOptions,
+  UseBatchTransferReturn,
+  DeployTokenParams,
+  DeployTokenParamsError,
+  TokenFeature,
+  DeployTokenResult,
+  DeploymentState,
+  DeploymentStage,
+  DeploymentStageProgress,
+  DeploymentProgress,
+  DeploymentRecord,
+  DeploymentStatus,
+  DeploymentMode,
+  UnsignedStylusDeployment,
+  DeployTokenRequest,
+  PrepareDeploymentRequest,
+  UseERC20DeployOptions,
+  UseERC20DeployReturn,
   UseERC20InteractionsOptions,
   UseERC20InteractionsReturn,
 } from './types';
 
+// Amount helpers
+export {
+  parseTokenAmount,
+  formatTokenAmount,
+  clearDecimalsCache,
+} from './decimals';
+
+// Errors
+export {
+  TokenContractError,
+  UnsupportedNetworkError,
+  NetworkMismatchError,
+  DeploymentSchemaError,
+  DeploymentProtocolError,
+  decodeTokenError,
+  type TokenErrorReason,
+} from './errors';
+
 // Interaction functions
 export {
   getTokenInfo,
+  getTokenDecimals,
   getBalance,
   getAllowance,
   transfer,
   approve,
+  safeApprove,
   transferFrom,
   mint,
   burn,
   pause,
   unpause,
   transferOwnership,
+  submitTokenWrite,
+  encodeTokenWrite,
+  type TokenWriteFunction,
+  type TokenWriteArgs,
+  type TokenWriteCall,
 } from './interactions';
 
+// Shared RPC clients and read caching
+export {
+  getPublicClient,
+  getNetworkClient,
+  toPublicClient,
+  toWalletClient,
+  multicall,
+  getTokenMetadata,
+  clearTokenMetadataCache,
+  type TokenMetadata,
+  type MulticallRequest,
+  type TokenSigner,
+} from './provider';
+
+// RPC failover and health
+export {
+  createRpcTransport,
+  checkRpcHealth,
+  getRpcHealth,
+  resetRpcHealth,
+  subscribeRpcHealth,
+  type RpcTransportOptions,
+} from './transport';
+
+// Signers
+export {
+  privateKeySigner,
+  browserWalletSigner,
+  keystoreSigner,
+  remoteSigner,
+  type Keystore,
+} from './signers';
+
+// Fee estimation
+export {
+  estimateTokenWrite,
+  estimateTransfer,
+  estimateApprove,
+  estimateMint,
+  estimateBurn,
+  estimatePause,
+  estimateUnpause,
+} from './fees';
+
+// Transaction history
+export {
+  getTransactionLog,
+  recordTransaction,
+  updateTransaction,
+  clearTransactionLog,
+  subscribeTransactionLog,
+  trackTransaction,
+  resumePendingTransactions,
+} from './transactions';
+
+// Event history
+export {
+  getTransferHistory,
+  getApprovalHistory,
+  findDeploymentBlock,
+} from './events';
+
+// Allowances
+export {
+  isUnlimitedAllowance,
+  getApprovedSpenders,
+  getActiveAllowances,
+} from './allowances';
+
+// Batch transfers
+export {
+  parseBatchTransfers,
+  summarizeBatch,
+  runBatchTransfer,
+  getBatchId,
+  getBatchProgress,
+  clearBatchProgress,
+  exportBatchReport,
+} from './batch';
+
+// Factory registry
+export {
+  getTotalTokensDeployed,
+  getFactoryTokenAddresses,
+  getFactoryTokenInfo,
+  getFactoryTokens,
+  getTokensByCreator,
+  searchFactoryTokens,
+} from './factory';
+
+// Watchlist
+export {
+  getWatchlist,
+  addToWatchlist,
+  removeFromWatchlist,
+} from './watchlist';
+
+// Deployment functions
+export {
+  validateDeployTokenParams,
+  deployERC20TokenViaAPI,
+  deployERC20TokenStaged,
+  deployERC20TokenWithWallet,
+  prepareStylusDeployment,
+  getDeploymentProgress,
+  initializeToken,
+  initializeTokenWithWallet,
+  registerTokenInFactory,
+  registerTokenWithWallet,
+  isTokenRegistered,
+  isProgramActivated,
+  getDeploymentStatus,
+  activateProgramWithWallet,
+  getDeploymentRecords,
+  getDeploymentRecord,
+  saveDeploymentRecord,
+  removeDeploymentRecord,
+} from './deployment';
+
+// Deployment API protocol
+export {
+  DEPLOYMENT_PROTOCOL_VERSION,
+  DEPLOYMENT_PROTOCOL_HEADER,
+  DEPLOYMENT_STAGES,
+  parseDeployTokenRequest,
+  parsePrepareDeploymentRequest,
+  parseDeployTokenResult,
+  parseDeploymentCreated,
+  parseDeploymentProgress,
+  parseUnsignedStylusDeployment,
+  parseDeploymentApiError,
+  assertDeploymentProtocol,
+} from './protocol';
+
 // React Hooks
 export {
+  useERC20Deploy,
   useERC20Interactions,
+  useTokenActivity,
+  useFactoryTokens,
+  useTokenWatchlist,
+  useTokenAllowances,
+  useBatchTransfer,
+  useTransactionHistory,
+  useRpcHealth,
 } from './hooks';
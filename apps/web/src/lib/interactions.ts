@@ -1,40 +1,106 @@
 /**
  * ERC20 Token Interaction Functions
+ *
+ * Reads take an RPC endpoint or a PublicClient. Writes take a TokenSigner
+ * (private key, Account or WalletClient; see ./signers for keystore, browser
+ * wallet and remote signers) and an RPC endpoint or PublicClient, which may be
+ * omitted when the signer is a WalletClient.
  */
 
-import { ethers } from 'ethers';
-import type { Address, Hash } from 'viem';
+import { encodeFunctionData } from 'viem';
+import type { Address, ContractFunctionArgs, Hash, Hex, PublicClient, WalletClient } from 'viem';
 import { ERC20_ABI, TOKEN_DECIMALS } from './constants';
+import { resolveDecimals, parseTokenAmount, formatTokenAmount } from './decimals';
+import { decodeTokenError } from './errors';
+import { assertWalletChain } from './networks';
+import {
+  getClientKey,
+  getTokenMetadata,
+  multicall,
+  toPublicClient,
+  toWalletClient,
+  toWritePublicClient,
+  type TokenSigner,
+} from './provider';
 import type { TokenInfo, BalanceInfo, AllowanceInfo } from './types';
 
 /**
- * Get token information
+ * Token functions that change state
+ */
+export type TokenWriteFunction =
+  | 'transfer'
+  | 'approve'
+  | 'transferFrom'
+  | 'mint'
+  | 'burn'
+  | 'pause'
+  | 'unpause'
+  | 'transferOwnership';
+
+/**
+ * Arguments of a token write function, typed from the ABI
+ */
+export type TokenWriteArgs<F extends TokenWriteFunction> = ContractFunctionArgs<
+  typeof ERC20_ABI,
+  'nonpayable' | 'payable',
+  F
+>;
+
+/**
+ * A token write function with its arguments
+ */
+export type TokenWriteCall = {
+  [F in TokenWriteFunction]: { functionName: F; args: TokenWriteArgs<F> };
+}[TokenWriteFunction];
+
+/**
+ * Encode calldata for a token write
+ */
+export function encodeTokenWrite(call: TokenWriteCall): Hex {
+  return encodeFunctionData({ abi: ERC20_ABI, ...call });
+}
+
+/**
+ * Get token decimals (read once per token and chain, then cached)
+ */
+export async function getTokenDecimals(
+  contractAddress: Address,
+  client: PublicClient | string
+): Promise<number> {
+  return resolveDecimals(contractAddress, getClientKey(client), () =>
+    toPublicClient(client).readContract({
+      address: contractAddress,
+      abi: ERC20_ABI,
+      functionName: 'decimals',
+    }) as Promise<number>
+  );
+}
+
+/**
+ * Get token information (cached name/symbol/decimals plus one multicall for the rest)
  */
 export async function getTokenInfo(
   contractAddress: Address,
-  rpcEndpoint: string
+  client: PublicClient | string
 ): Promise<TokenInfo> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, provider);
-
-  const [name, symbol, decimals, totalSupply, owner, paused] = await Promise.all([
-    contract.name(),
-    contract.symbol(),
-    contract.decimals(),
-    contract.totalSupply(),
-    contract.owner(),
-    contract.paused(),
+  const [{ name, symbol, decimals }, [totalSupply, owner, paused]] = await Promise.all([
+    getTokenMetadata(contractAddress, client),
+    multicall(client, [
+      { target: contractAddress, abi: ERC20_ABI, functionName: 'totalSupply' },
+      { target: contractAddress, abi: ERC20_ABI, functionName: 'owner' },
+      { target: contractAddress, abi: ERC20_ABI, functionName: 'paused' },
+    ]),
   ]);
 
   return {
     address: contractAddress,
     name,
     symbol,
-    decimals: Number(decimals),
-    totalSupply: BigInt(totalSupply),
-    formattedTotalSupply: ethers.formatUnits(totalSupply, decimals),
+    decimals,
+    totalSupply: totalSupply as bigint,
+    formattedTotalSupply: formatTokenAmount(totalSupply as bigint, decimals),
     owner: owner as Address,
-    paused,
+    paused: paused as boolean,
   };
 }
 
@@ -44,16 +110,21 @@ export async function getTokenInfo(
 export async function getBalance(
   contractAddress: Address,
   accountAddress: Address,
-  rpcEndpoint: string
+  client: PublicClient | string
 ): Promise<BalanceInfo> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, provider);
+  const [balance, decimals] = await Promise.all([
+    toPublicClient(client).readContract({
+      address: contractAddress,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [accountAddress],
+    }) as Promise<bigint>,
+    getTokenDecimals(contractAddress, client),
+  ]);
 
-  const balance = await contract.balanceOf(accountAddress);
-  
   return {
-    balance: BigInt(balance),
-    formatted: ethers.formatUnits(balance, TOKEN_DECIMALS),
+    balance,
+    formatted: formatTokenAmount(balance, decimals),
   };
 }
 
@@ -64,16 +135,21 @@ export async function getAllowance(
   contractAddress: Address,
   ownerAddress: Address,
   spenderAddress: Address,
-  rpcEndpoint: string
+  client: PublicClient | string
 ): Promise<AllowanceInfo> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, provider);
+  const [allowance, decimals] = await Promise.all([
+    toPublicClient(client).readContract({
+      address: contractAddress,
+      abi: ERC20_ABI,
+      functionName: 'allowance',
+      args: [ownerAddress, spenderAddress],
+    }) as Promise<bigint>,
+    getTokenDecimals(contractAddress, client),
+  ]);
 
-  const allowance = await contract.allowance(ownerAddress, spenderAddress);
-  
   return {
-    allowance: BigInt(allowance),
-    formatted: ethers.formatUnits(allowance, TOKEN_DECIMALS),
+    allowance,
+    formatted: formatTokenAmount(allowance, decimals),
   };
 }
 
@@ -84,18 +160,12 @@ export async function transfer(
   contractAddress: Address,
   to: Address,
   amount: string,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const amountWei = ethers.parseUnits(amount, TOKEN_DECIMALS);
-  const tx = await contract.transfer(to, amountWei);
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  const publicClient = toWritePublicClient(signer, client);
+  const amountWei = parseTokenAmount(amount, await getTokenDecimals(contractAddress, publicClient));
+  return sendAndWait(contractAddress, { functionName: 'transfer', args: [to, amountWei] }, signer, publicClient);
 }
 
 /**
@@ -105,18 +175,32 @@ export async function approve(
   contractAddress: Address,
   spender: Address,
   amount: string,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
+  const publicClient = toWritePublicClient(signer, client);
+  const amountWei = parseTokenAmount(amount, await getTokenDecimals(contractAddress, publicClient));
+  return sendAndWait(contractAddress, { functionName: 'approve', args: [spender, amountWei] }, signer, publicClient);
+}
 
-  const amountWei = ethers.parseUnits(amount, TOKEN_DECIMALS);
-  const tx = await contract.approve(spender, amountWei);
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+/**
+ * Approve spender, resetting a non-zero allowance to zero first
+ */
+export async function safeApprove(
+  contractAddress: Address,
+  spender: Address,
+  amount: string,
+  signer: TokenSigner,
+  client?: PublicClient | string
+): Promise<Hash> {
+  const publicClient = toWritePublicClient(signer, client);
+  const walletClient = toWalletClient(signer, publicClient);
+  const amountWei = parseTokenAmount(amount, await getTokenDecimals(contractAddress, publicClient));
+  const { allowance: current } = await getAllowance(contractAddress, walletClient.account!.address, spender, publicClient);
+  if (current > BigInt(0) && amountWei > BigInt(0)) {
+    await sendAndWait(contractAddress, { functionName: 'approve', args: [spender, BigInt(0)] }, walletClient, publicClient);
+  }
+  return sendAndWait(contractAddress, { functionName: 'approve', args: [spender, amountWei] }, walletClient, publicClient);
 }
 
 /**
@@ -127,18 +211,12 @@ export async function transferFrom(
   from: Address,
   to: Address,
   amount: string,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const amountWei = ethers.parseUnits(amount, TOKEN_DECIMALS);
-  const tx = await contract.transferFrom(from, to, amountWei);
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  const publicClient = toWritePublicClient(signer, client);
+  const amountWei = parseTokenAmount(amount, await getTokenDecimals(contractAddress, publicClient));
+  return sendAndWait(contractAddress, { functionName: 'transferFrom', args: [from, to, amountWei] }, signer, publicClient);
 }
 
 /**
@@ -148,18 +226,12 @@ export async function mint(
   contractAddress: Address,
   to: Address,
   amount: string,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const amountWei = ethers.parseUnits(amount, TOKEN_DECIMALS);
-  const tx = await contract.mint(to, amountWei);
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  const publicClient = toWritePublicClient(signer, client);
+  const amountWei = parseTokenAmount(amount, await getTokenDecimals(contractAddress, publicClient));
+  return sendAndWait(contractAddress, { functionName: 'mint', args: [to, amountWei] }, signer, publicClient);
 }
 
 /**
@@ -168,18 +240,12 @@ export async function mint(
 export async function burn(
   contractAddress: Address,
   amount: string,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const amountWei = ethers.parseUnits(amount, TOKEN_DECIMALS);
-  const tx = await contract.burn(amountWei);
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  const publicClient = toWritePublicClient(signer, client);
+  const amountWei = parseTokenAmount(amount, await getTokenDecimals(contractAddress, publicClient));
+  return sendAndWait(contractAddress, { functionName: 'burn', args: [amountWei] }, signer, publicClient);
 }
 
 /**
@@ -187,17 +253,10 @@ export async function burn(
  */
 export async function pause(
   contractAddress: Address,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const tx = await contract.pause();
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  return sendAndWait(contractAddress, { functionName: 'pause', args: [] }, signer, toWritePublicClient(signer, client));
 }
 
 /**
@@ -205,17 +264,10 @@ export async function pause(
  */
 export async function unpause(
   contractAddress: Address,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const tx = await contract.unpause();
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  return sendAndWait(contractAddress, { functionName: 'unpause', args: [] }, signer, toWritePublicClient(signer, client));
 }
 
 /**
@@ -224,15 +276,55 @@ export async function unpause(
 export async function transferOwnership(
   contractAddress: Address,
   newOwner: Address,
-  privateKey: string,
-  rpcEndpoint: string
+  signer: TokenSigner,
+  client?: PublicClient | string
+): Promise<Hash> {
+  return sendAndWait(contractAddress, { functionName: 'transferOwnership', args: [newOwner] }, signer, toWritePublicClient(signer, client));
+}
+
+/**
+ * Simulate a token write and submit it from the wallet, without waiting for it to be mined.
+ * Shared by the functions above and the React hooks.
+ */
+export async function submitTokenWrite(
+  contractAddress: Address,
+  call: TokenWriteCall,
+  walletClient: WalletClient,
+  publicClient: PublicClient
+): Promise<Hash> {
+  const { request } = await publicClient.simulateContract({
+    address: contractAddress,
+    abi: ERC20_ABI,
+    ...call,
+    account: walletClient.account,
+  });
+
+  return walletClient.writeContract({ ...request, chain: walletClient.chain ?? null });
+}
+
+/**
+ * Send a write, wait for it to be mined and decode reverts into a TokenContractError
+ */
+async function sendAndWait(
+  contractAddress: Address,
+  call: TokenWriteCall,
+  signer: TokenSigner,
+  publicClient: PublicClient
 ): Promise<Hash> {
-  const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-  const wallet = new ethers.Wallet(privateKey, provider);
-  const contract = new ethers.Contract(contractAddress, ERC20_ABI, wallet);
-
-  const tx = await contract.transferOwnership(newOwner);
-  const receipt = await tx.wait();
-  
-  return receipt.hash as Hash;
+  try {
+    const walletClient = toWalletClient(signer, publicClient);
+    // Keys and accounts send through publicClient; a wallet brings its own chain
+    if (walletClient === signer) {
+      await assertWalletChain(walletClient, publicClient);
+    }
+    const hash = await submitTokenWrite(contractAddress, call, walletClient, publicClient);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return hash;
+  } catch (err) {
+    const decimals = await getTokenDecimals(contractAddress, publicClient).catch(() => TOKEN_DECIMALS);
+    throw decodeTokenError(err, decimals);
+  }
 }
@@ -0,0 +1,255 @@
+/**
+ * ERC20 Network Registry
+ *
+ * Every network the package can talk to, by name. Arbitrum One, Arbitrum
+ * Sepolia, Arbitrum Nova and a local nitro devnode are built in; Orbit chains
+ * and other deployments can be added at runtime with registerNetwork(), which
+ * keeps them in local storage so they are still there after a reload.
+ */
+
+import { defineChain, isAddress } from 'viem';
+import type { Address, Chain, PublicClient, WalletClient } from 'viem';
+import {
+  CHAIN_IDS,
+  RPC_ENDPOINTS,
+  FALLBACK_RPC_ENDPOINTS,
+  EXPLORER_URLS,
+  FACTORY_ADDRESSES,
+  type BuiltInNetwork,
+  type SupportedNetwork,
+} from './constants';
+import { NetworkMismatchError, UnsupportedNetworkError } from './errors';
+import { readStored, writeStored } from './storage';
+
+/**
+ * Everything needed to read from, write to and link to a network
+ */
+export interface NetworkConfig {
+  network: SupportedNetwork;
+  /** Display name */
+  name: string;
+  chainId: number;
+  /** RPC endpoints, preferred first; requests fail over between them */
+  rpcUrls: string[];
+  explorerUrl?: string;
+  /** Token factory; factory listing and registration are unavailable without one */
+  factoryAddress?: Address;
+  /** Block the factory was deployed in, where TokenCreated log scans start (found on-chain when unset) */
+  factoryDeploymentBlock?: bigint;
+  /** Gas token, for Orbit chains that don't use ETH */
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+}
+
+const BUILT_IN_NAMES: Record<BuiltInNetwork, string> = {
+  'arbitrum': 'Arbitrum One',
+  'arbitrum-sepolia': 'Arbitrum Sepolia',
+  'arbitrum-nova': 'Arbitrum Nova',
+  'nitro-devnode': 'Nitro Devnode',
+};
+
+// Stored form of a registered network; JSON has no bigint
+type StoredNetworkConfig = Omit<NetworkConfig, 'factoryDeploymentBlock'> & { factoryDeploymentBlock?: string };
+
+const NETWORKS_KEY = 'networks';
+
+const builtInNetwork = (network: BuiltInNetwork): NetworkConfig => ({
+  network,
+  name: BUILT_IN_NAMES[network],
+  chainId: CHAIN_IDS[network],
+  rpcUrls: [RPC_ENDPOINTS[network], ...(FALLBACK_RPC_ENDPOINTS[network] ?? [])],
+  explorerUrl: EXPLORER_URLS[network],
+  factoryAddress: FACTORY_ADDRESSES[network],
+});
+
+const isBuiltIn = (network: SupportedNetwork): network is BuiltInNetwork => network in CHAIN_IDS;
+
+const registry = new Map<SupportedNetwork, NetworkConfig>(
+  (Object.keys(CHAIN_IDS) as BuiltInNetwork[]).map((network) => [network, builtInNetwork(network)])
+);
+// Names passed to registerNetwork(), built-in ones included when overridden
+const registered = new Set<SupportedNetwork>();
+const listeners = new Set<() => void>();
+
+// Restore networks registered in earlier sessions, skipping any that no longer validate
+readStored<StoredNetworkConfig[]>(NETWORKS_KEY, []).forEach((stored) => {
+  try {
+    addNetwork({
+      ...stored,
+      factoryDeploymentBlock: stored.factoryDeploymentBlock === undefined ? undefined : BigInt(stored.factoryDeploymentBlock),
+    });
+  } catch (err) {
+    console.warn(`Ignoring stored network ${stored.network}:`, err);
+  }
+});
+
+/**
+ * Add a network, or replace the config of one with the same name
+ * (e.g. to point a built-in network at a private RPC endpoint).
+ * The config is stored locally and restored on the next page load.
+ */
+export function registerNetwork(config: NetworkConfig): void {
+  addNetwork(config);
+  persist();
+  notify();
+}
+
+/**
+ * Remove a runtime-registered network, or reset an overridden built-in network to its defaults
+ */
+export function unregisterNetwork(network: SupportedNetwork): void {
+  if (isBuiltIn(network)) {
+    registry.set(network, builtInNetwork(network));
+  } else {
+    registry.delete(network);
+  }
+  registered.delete(network);
+  persist();
+  notify();
+}
+
+/**
+ * Subscribe to networks being registered or removed; returns an unsubscribe function
+ */
+export function subscribeNetworks(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function addNetwork(config: NetworkConfig): void {
+  if (!Number.isInteger(config.chainId) || config.chainId <= 0) {
+    throw new Error(`Invalid chain id for ${config.network}: ${config.chainId}`);
+  }
+  if (config.rpcUrls.length === 0) {
+    throw new Error(`At least one RPC endpoint is required for ${config.network}`);
+  }
+  if (config.factoryAddress && !isAddress(config.factoryAddress)) {
+    throw new Error(`Invalid factory address for ${config.network}: ${config.factoryAddress}`);
+  }
+  if (config.factoryDeploymentBlock !== undefined && config.factoryDeploymentBlock < BigInt(0)) {
+    throw new Error(`Invalid factory deployment block for ${config.network}: ${config.factoryDeploymentBlock}`);
+  }
+  const existing = getNetworkByChainId(config.chainId);
+  if (existing && existing.network !== config.network) {
+    throw new Error(`Chain ${config.chainId} is already registered as ${existing.network}`);
+  }
+
+  registry.set(config.network, { ...config, rpcUrls: [...config.rpcUrls] });
+  registered.add(config.network);
+}
+
+function persist(): void {
+  writeStored<StoredNetworkConfig[]>(
+    NETWORKS_KEY,
+    Array.from(registered, (network) => {
+      const { factoryDeploymentBlock, ...config } = getNetwork(network);
+      return { ...config, factoryDeploymentBlock: factoryDeploymentBlock?.toString() };
+    })
+  );
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Whether a network name is built in or registered
+ */
+export function isSupportedNetwork(network: string): network is SupportedNetwork {
+  return registry.has(network);
+}
+
+/**
+ * Get a network's config, throwing UnsupportedNetworkError for unknown names
+ */
+export function getNetwork(network: SupportedNetwork): NetworkConfig {
+  const config = registry.get(network);
+  if (!config) {
+    throw new UnsupportedNetworkError(network);
+  }
+  return config;
+}
+
+/**
+ * List every built-in and registered network
+ */
+export function getNetworks(): NetworkConfig[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Find the network for a chain id
+ */
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return getNetworks().find((config) => config.chainId === chainId);
+}
+
+/**
+ * Get chain id for network
+ */
+export function getChainId(network: SupportedNetwork): number {
+  return getNetwork(network).chainId;
+}
+
+/**
+ * Get the preferred RPC endpoint for network
+ */
+export function getRpcEndpoint(network: SupportedNetwork): string {
+  return getNetwork(network).rpcUrls[0];
+}
+
+/**
+ * Get factory address for network
+ */
+export function getFactoryAddress(network: SupportedNetwork): Address {
+  const { factoryAddress } = getNetwork(network);
+  if (!factoryAddress) {
+    throw new Error(`No token factory is configured for ${network}`);
+  }
+  return factoryAddress;
+}
+
+/**
+ * Get the block explorer base URL for network, if it has one
+ */
+export function getExplorerUrl(network: SupportedNetwork): string | undefined {
+  return getNetwork(network).explorerUrl;
+}
+
+/**
+ * Build a viem Chain for network, for wallet and wagmi configuration
+ */
+export function getNetworkChain(network: SupportedNetwork): Chain {
+  const { name, chainId, rpcUrls, explorerUrl, nativeCurrency } = getNetwork(network);
+  return defineChain({
+    id: chainId,
+    name,
+    nativeCurrency: nativeCurrency ?? { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: rpcUrls } },
+    blockExplorers: explorerUrl ? { default: { name: 'Explorer', url: explorerUrl } } : undefined,
+  });
+}
+
+/**
+ * Throw a NetworkMismatchError unless chainId is network's chain
+ */
+export function assertNetworkChain(network: SupportedNetwork, chainId: number): void {
+  const expected = getChainId(network);
+  if (chainId !== expected) {
+    throw new NetworkMismatchError(expected, chainId, network);
+  }
+}
+
+/**
+ * Throw a NetworkMismatchError unless the wallet is on the chain the public client reads from
+ */
+export async function assertWalletChain(walletClient: WalletClient, publicClient: PublicClient): Promise<void> {
+  const [walletChainId, chainId] = await Promise.all([
+    walletClient.getChainId(),
+    publicClient.chain?.id ?? publicClient.getChainId(),
+  ]);
+  if (walletChainId !== chainId) {
+    throw new NetworkMismatchError(chainId, walletChainId, getNetworkByChainId(chainId)?.network);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * ERC20 Deployment API Protocol
+ *
+ * Runtime schemas for every message exchanged with the deployment API, shared
+ * by the client functions in ./deployment and the local API server. Both sides
+ * send the protocol version in a header, so a client and an API built for
+ * different versions fail on the first call instead of misreading each other.
+ */
+
+import { isAddress, isHex } from 'viem';
+import type { Address, Hash, Hex } from 'viem';
+import { TOKEN_FEATURES } from './constants';
+import { DeploymentProtocolError, DeploymentSchemaError } from './errors';
+import type {
+  DeployTokenParams,
+  DeployTokenRequest,
+  DeployTokenResult,
+  DeploymentProgress,
+  DeploymentStage,
+  DeploymentStageProgress,
+  PrepareDeploymentRequest,
+  TokenFeature,
+  UnsignedStylusDeployment,
+} from './types';
+
+/**
+ * Version of the request and response shapes below; bump on any breaking change
+ */
+export const DEPLOYMENT_PROTOCOL_VERSION = 1;
+
+/**
+ * Header carrying the protocol version on every request and response
+ */
+export const DEPLOYMENT_PROTOCOL_HEADER = 'X-Deployment-Protocol';
+
+/**
+ * Deployment pipeline stages, in order
+ */
+export const DEPLOYMENT_STAGES: readonly DeploymentStage[] = ['deploying', 'activating', 'initializing', 'registering'];
+
+const STAGE_STATUSES: readonly DeploymentStageProgress['status'][] = ['pending', 'running', 'complete', 'failed', 'skipped'];
+const PROGRESS_STATUSES: readonly DeploymentProgress['status'][] = [...DEPLOYMENT_STAGES, 'success', 'error'];
+
+type Fields = Record<string, unknown>;
+
+interface Rule {
+  test: (value: unknown) => boolean;
+  expected: string;
+}
+
+const TEXT: Rule = { test: (v) => typeof v === 'string' && v !== '', expected: 'a non-empty string' };
+const ANY_TEXT: Rule = { test: (v) => typeof v === 'string', expected: 'a string' };
+const BOOLEAN: Rule = { test: (v) => typeof v === 'boolean', expected: 'a boolean' };
+const ADDRESS: Rule = { test: (v) => typeof v === 'string' && isAddress(v, { strict: false }), expected: 'a 20-byte hex address' };
+const HASH: Rule = { test: (v) => typeof v === 'string' && isHex(v) && v.length === 66, expected: 'a 32-byte hex hash' };
+const DATA: Rule = { test: (v) => typeof v === 'string' && /^0x([0-9a-fA-F]{2})+$/.test(v), expected: 'non-empty hex data' };
+const WEI: Rule = { test: (v) => typeof v === 'string' && /^\d+$/.test(v), expected: 'a decimal wei amount' };
+const PRIVATE_KEY: Rule = { test: (v) => typeof v === 'string' && /^(0x)?[0-9a-fA-F]{64}$/.test(v), expected: '32 bytes of hex' };
+const ENDPOINT: Rule = { test: (v) => typeof v === 'string' && /^(https?|wss?):\/\/\S+$/.test(v), expected: 'an http(s) or ws(s) URL' };
+
+const oneOf = (values: readonly string[]): Rule => ({
+  test: (v) => typeof v === 'string' && values.includes(v),
+  expected: `one of ${values.join(', ')}`,
+});
+
+/**
+ * Check a /deploy-token or /deployments request body
+ */
+export function parseDeployTokenRequest(body: unknown): DeployTokenRequest {
+  const where = 'deployment request';
+  const fields = expectObject(body, where, 'body');
+  return {
+    ...parseDeployTokenParams(fields, where),
+    // Never echoed back in errors
+    privateKey: expect<string>(fields, 'privateKey', where, PRIVATE_KEY, { secret: true }),
+    rpcEndpoint: expect<string>(fields, 'rpcEndpoint', where, ENDPOINT),
+  };
+}
+
+/**
+ * Check a /prepare-deployment request body
+ */
+export function parsePrepareDeploymentRequest(body: unknown): PrepareDeploymentRequest {
+  const where = 'prepare-deployment request';
+  const fields = expectObject(body, where, 'body');
+  return {
+    ...parseDeployTokenParams(fields, where),
+    from: expect<Address>(fields, 'from', where, ADDRESS),
+    rpcEndpoint: expect<string>(fields, 'rpcEndpoint', where, ENDPOINT),
+  };
+}
+
+/**
+ * Check a /deploy-token response
+ */
+export function parseDeployTokenResult(body: unknown): DeployTokenResult {
+  const where = 'deploy-token response';
+  const fields = expectObject(body, where, 'body');
+  return {
+    tokenAddress: expect<Address>(fields, 'tokenAddress', where, ADDRESS),
+    txHash: expect<Hash>(fields, 'txHash', where, HASH),
+    success: expect<boolean>(fields, 'success', where, BOOLEAN),
+    deployOutput: expect<string | undefined>(fields, 'deployOutput', where, ANY_TEXT, { optional: true }),
+    initOutput: expect<string | undefined>(fields, 'initOutput', where, ANY_TEXT, { optional: true }),
+    registerOutput: expect<string | undefined>(fields, 'registerOutput', where, ANY_TEXT, { optional: true }),
+    stages: fields.stages === undefined ? undefined : parseStages(fields.stages, where),
+  };
+}
+
+/**
+ * Check the response to starting a staged deployment
+ */
+export function parseDeploymentCreated(body: unknown): { deploymentId: string } {
+  const where = 'deployments response';
+  return { deploymentId: expect<string>(expectObject(body, where, 'body'), 'deploymentId', where, TEXT) };
+}
+
+/**
+ * Check a staged deployment progress snapshot
+ */
+export function parseDeploymentProgress(body: unknown): DeploymentProgress {
+  const where = 'deployment progress';
+  const fields = expectObject(body, where, 'body');
+  return {
+    deploymentId: expect<string>(fields, 'deploymentId', where, TEXT),
+    status: expect<DeploymentProgress['status']>(fields, 'status', where, oneOf(PROGRESS_STATUSES)),
+    stages: parseStages(fields.stages, where),
+    tokenAddress: expect<Address | undefined>(fields, 'tokenAddress', where, ADDRESS, { optional: true }),
+    error: expect<string | undefined>(fields, 'error', where, ANY_TEXT, { optional: true }),
+  };
+}
+
+/**
+ * Check a /prepare-deployment response
+ */
+export function parseUnsignedStylusDeployment(body: unknown): UnsignedStylusDeployment {
+  const where = 'prepare-deployment response';
+  const fields = expectObject(body, where, 'body');
+  const deployTransaction = expectObject(fields.deployTransaction, where, 'deployTransaction');
+  return {
+    deployTransaction: {
+      data: expect<Hex>(deployTransaction, 'data', where, DATA, { path: 'deployTransaction.data' }),
+      value: expect<string | undefined>(deployTransaction, 'value', where, WEI, { optional: true, path: 'deployTransaction.value' }),
+    },
+    activationValue: expect<string>(fields, 'activationValue', where, WEI),
+  };
+}
+
+/**
+ * The message of an error response ({ error }), if it has one
+ */
+export function parseDeploymentApiError(body: unknown): string | undefined {
+  const error = (body as { error?: unknown } | null)?.error;
+  return typeof error === 'string' && error !== '' ? error : undefined;
+}
+
+/**
+ * Throw a DeploymentProtocolError unless `version` (the header value) is this package's version
+ */
+export function assertDeploymentProtocol(version: string | null | undefined): void {
+  if (version === null || version === undefined || version === '') {
+    throw new DeploymentProtocolError(DEPLOYMENT_PROTOCOL_VERSION);
+  }
+  if (version.trim() !== String(DEPLOYMENT_PROTOCOL_VERSION)) {
+    throw new DeploymentProtocolError(DEPLOYMENT_PROTOCOL_VERSION, version);
+  }
+}
+
+function parseDeployTokenParams(fields: Fields, where: string): DeployTokenParams {
+  const features = fields.features ?? undefined;
+  if (features !== undefined && !Array.isArray(features)) {
+    throw schemaError(where, 'features', 'an array of features', features);
+  }
+
+  return {
+    name: expect<string>(fields, 'name', where, TEXT),
+    symbol: expect<string>(fields, 'symbol', where, TEXT),
+    initialSupply: expect<string>(fields, 'initialSupply', where, TEXT),
+    factoryAddress: expect<Address | undefined>(fields, 'factoryAddress', where, ADDRESS, { optional: true }),
+    features: features?.map((_, index) =>
+      expect<TokenFeature>(features, index, where, oneOf(TOKEN_FEATURES), { path: `features[${index}]` })
+    ),
+  };
+}
+
+function parseStages(value: unknown, where: string): DeploymentStageProgress[] {
+  if (!Array.isArray(value)) {
+    throw schemaError(where, 'stages', 'an array of stages', value);
+  }
+  return value.map((item, index) => {
+    const path = `stages[${index}]`;
+    const stage = expectObject(item, where, path);
+    return {
+      stage: expect<DeploymentStage>(stage, 'stage', where, oneOf(DEPLOYMENT_STAGES), { path: `${path}.stage` }),
+      status: expect<DeploymentStageProgress['status']>(stage, 'status', where, oneOf(STAGE_STATUSES), { path: `${path}.status` }),
+      txHash: expect<Hash | undefined>(stage, 'txHash', where, HASH, { optional: true, path: `${path}.txHash` }),
+      output: expect<string | undefined>(stage, 'output', where, ANY_TEXT, { optional: true, path: `${path}.output` }),
+    };
+  });
+}
+
+function expectObject(value: unknown, where: string, path: string): Fields {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw schemaError(where, path, 'an object', value);
+  }
+  return value as Fields;
+}
+
+// Null counts as absent for optional fields, since JSON has no undefined
+function expect<T>(
+  fields: Fields | unknown[],
+  key: string | number,
+  where: string,
+  rule: Rule,
+  options: { optional?: boolean; secret?: boolean; path?: string } = {}
+): T {
+  const value = (fields as Record<string | number, unknown>)[key];
+  if (options.optional && (value === undefined || value === null)) {
+    return undefined as T;
+  }
+  if (!rule.test(value)) {
+    throw schemaError(where, options.path ?? String(key), rule.expected, value, options.secret);
+  }
+  return value as T;
+}
+
+function schemaError(where: string, path: string, expected: string, value: unknown, secret = false): DeploymentSchemaError {
+  const got = value === undefined
+    ? 'nothing'
+    : secret ? 'an invalid value' : JSON.stringify(value)?.slice(0, 80) ?? String(value);
+  return new DeploymentSchemaError(`Malformed ${where}: ${path} must be ${expected}, got ${got}`, path);
+}
@@ -0,0 +1,144 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { decodeFunctionData, encodeFunctionResult, getAddress, parseUnits, type Address, type Hex } from 'viem';
+import { ERC20_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS } from './constants';
+import { clearDecimalsCache } from './decimals';
+import { getAllowance, getBalance, getTokenInfo } from './interactions';
+import { clearTokenMetadataCache, getTokenMetadata } from './provider';
+import { resetRpcHealth } from './transport';
+
+const TOKEN = getAddress('0x00000000000000000000000000000000000e2c20');
+const OWNER = getAddress('0x00000000000000000000000000000000000000a1');
+const USER = getAddress('0x00000000000000000000000000000000000000b2');
+const SPENDER = getAddress('0x00000000000000000000000000000000000000c3');
+
+// What the mock token returns for each read
+const TOKEN_STATE: Record<string, unknown> = {
+  name: 'Test Token',
+  symbol: 'TEST',
+  decimals: 18,
+  totalSupply: parseUnits('1000000', 18),
+  owner: OWNER,
+  paused: false,
+  balanceOf: parseUnits('250', 18),
+  allowance: parseUnits('10', 18),
+};
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+interface MockToken {
+  url: string;
+  // HTTP requests received so far
+  hits: number;
+  // Token functions read so far, directly or through Multicall3
+  reads: string[];
+  // JSON-RPC methods called so far
+  methods: string[];
+}
+
+const servers: Server[] = [];
+
+/**
+ * Start a JSON-RPC endpoint serving TOKEN_STATE for any token, directly and through Multicall3
+ */
+async function mockToken(): Promise<MockToken> {
+  const mock: MockToken = { url: '', hits: 0, reads: [], methods: [] };
+
+  const callToken = (data: Hex): Hex => {
+    const { functionName } = decodeFunctionData({ abi: ERC20_ABI, data });
+    mock.reads.push(functionName);
+    return encodeFunctionResult({
+      abi: ERC20_ABI,
+      functionName,
+      result: TOKEN_STATE[functionName],
+    } as Parameters<typeof encodeFunctionResult>[0]);
+  };
+
+  const respond = ({ id, method, params = [] }: JsonRpcRequest) => {
+    mock.methods.push(method);
+    if (method === 'eth_chainId') return { jsonrpc: '2.0', id, result: '0x66eee' };
+    const { to, data } = params[0] as { to: Address; data: Hex };
+    if (to.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+      return { jsonrpc: '2.0', id, result: callToken(data) };
+    }
+    const { args } = decodeFunctionData({ abi: MULTICALL3_ABI, data });
+    const [calls] = args as readonly [readonly { target: Address; callData: Hex }[]];
+    const result = encodeFunctionResult({
+      abi: MULTICALL3_ABI,
+      functionName: 'aggregate3',
+      result: calls.map((call) => ({ success: true, returnData: callToken(call.callData) })),
+    });
+    return { jsonrpc: '2.0', id, result };
+  };
+
+  const server = createServer(async (req, res) => {
+    mock.hits++;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8')) as JsonRpcRequest | JsonRpcRequest[];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(Array.isArray(body) ? body.map(respond) : respond(body)));
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  mock.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return mock;
+}
+
+afterEach(async () => {
+  clearTokenMetadataCache();
+  clearDecimalsCache();
+  resetRpcHealth();
+  await Promise.all(servers.splice(0).map((server) => {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(resolve));
+  }));
+});
+
+describe('getTokenInfo', () => {
+  it('reads a token in one HTTP request, then only its live fields', async () => {
+    const rpc = await mockToken();
+
+    const info = await getTokenInfo(TOKEN, rpc.url);
+    expect(info).toMatchObject({ name: 'Test Token', symbol: 'TEST', decimals: 18, owner: OWNER, paused: false });
+    expect(info.formattedTotalSupply).toBe('1000000');
+    // Metadata and live fields are one multicall each, batched into one request
+    expect(rpc.hits).toBe(1);
+    expect(rpc.methods).toEqual(['eth_call', 'eth_call']);
+    expect(rpc.reads.sort()).toEqual(['decimals', 'name', 'owner', 'paused', 'symbol', 'totalSupply']);
+
+    rpc.reads = [];
+    rpc.methods = [];
+    await getTokenInfo(TOKEN, rpc.url);
+    expect(rpc.hits).toBe(2);
+    expect(rpc.methods).toEqual(['eth_call']);
+    expect(rpc.reads).toEqual(['totalSupply', 'owner', 'paused']);
+  });
+
+  it('serves cached metadata without new requests', async () => {
+    const rpc = await mockToken();
+
+    await getTokenInfo(TOKEN, rpc.url);
+    const hits = rpc.hits;
+    await expect(getTokenMetadata(TOKEN, rpc.url)).resolves.toEqual({ name: 'Test Token', symbol: 'TEST', decimals: 18 });
+    expect(rpc.hits).toBe(hits);
+  });
+
+  it('batches a page load of info, balance and allowance into one request', async () => {
+    const rpc = await mockToken();
+
+    const [, balance, allowance] = await Promise.all([
+      getTokenInfo(TOKEN, rpc.url),
+      getBalance(TOKEN, USER, rpc.url),
+      getAllowance(TOKEN, USER, SPENDER, rpc.url),
+    ]);
+    expect(balance.formatted).toBe('250');
+    expect(allowance.formatted).toBe('10');
+    expect(rpc.hits).toBe(1);
+  });
+});
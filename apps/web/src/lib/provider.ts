@@ -0,0 +1,182 @@
+/**
+ * ERC20 Shared RPC Clients
+ *
+ * One viem client per RPC endpoint (or per network, failing over between its
+ * endpoints), so concurrent requests share JSON-RPC batches. Multi-value reads go through Multicall3 as a single eth_call,
+ * and immutable token fields are cached.
+ */
+
+import { createPublicClient, createWalletClient, custom, publicActions } from 'viem';
+import type { Abi, Account, Address, PublicClient, WalletClient } from 'viem';
+import { ERC20_ABI, MULTICALL3_ADDRESS, type SupportedNetwork } from './constants';
+import { resolveDecimals } from './decimals';
+import { getNetwork, getNetworkChain } from './networks';
+import { privateKeySigner } from './signers';
+import { createRpcTransport } from './transport';
+
+/**
+ * Anything that can sign token writes: a private key, a viem Account (including
+ * keystore and remote signers from ./signers), or a WalletClient (e.g. a browser wallet)
+ */
+export type TokenSigner = string | Account | WalletClient;
+
+const publicClients = new Map<string, PublicClient>();
+const metadataCache = new Map<string, Promise<TokenMetadata>>();
+
+/**
+ * Fields fixed at initialization, safe to cache for the life of the page
+ */
+export interface TokenMetadata {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * A read call for multicall
+ */
+export interface MulticallRequest {
+  target: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * Get the shared public client for an RPC endpoint
+ * (retried with backoff when rate limited or unreachable)
+ */
+export function getPublicClient(rpcEndpoint: string): PublicClient {
+  let client = publicClients.get(rpcEndpoint);
+  if (!client) {
+    client = createPublicClient({ transport: createRpcTransport([rpcEndpoint]) });
+    publicClients.set(rpcEndpoint, client);
+  }
+  return client;
+}
+
+/**
+ * Get the shared public client for a network, failing over between its RPC endpoints
+ */
+export function getNetworkClient(network: SupportedNetwork): PublicClient {
+  const { rpcUrls } = getNetwork(network);
+  // Keyed by the endpoint list so re-registering a network gets a fresh client
+  const key = `${network}:${rpcUrls.join(',')}`;
+  let client = publicClients.get(key);
+  if (!client) {
+    client = createPublicClient({ chain: getNetworkChain(network), transport: createRpcTransport(rpcUrls) });
+    publicClients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Use a PublicClient as-is, or the shared client for an RPC endpoint
+ */
+export function toPublicClient(client: PublicClient | string): PublicClient {
+  return typeof client === 'string' ? getPublicClient(client) : client;
+}
+
+/**
+ * Resolve a signer to a WalletClient with an account. Private keys and
+ * Accounts send through `client` (required for them); a WalletClient is used as-is.
+ */
+export function toWalletClient(signer: TokenSigner, client?: PublicClient | string): WalletClient {
+  if (typeof signer === 'object' && 'request' in signer) {
+    if (!signer.account) {
+      throw new Error('Wallet client has no connected account');
+    }
+    return signer;
+  }
+  if (!client) {
+    throw new Error('An RPC endpoint or public client is required to send with a private key or account');
+  }
+
+  const account = typeof signer === 'string' ? privateKeySigner(signer) : signer;
+  const transport = typeof client === 'string' ? createRpcTransport([client]) : custom(client);
+  return createWalletClient({ account, transport });
+}
+
+/**
+ * Resolve the public client to read and wait on for a write: `client` if given,
+ * otherwise the signer's own WalletClient
+ */
+export function toWritePublicClient(signer: TokenSigner, client?: PublicClient | string): PublicClient {
+  if (client) return toPublicClient(client);
+  if (typeof signer === 'object' && 'request' in signer) {
+    return signer.extend(publicActions) as unknown as PublicClient;
+  }
+  throw new Error('An RPC endpoint or public client is required to send with a private key or account');
+}
+
+/**
+ * Key identifying the chain behind a client, for caches
+ */
+export function getClientKey(client: PublicClient | string): string {
+  if (typeof client === 'string') return client;
+  return client.chain ? `chain:${client.chain.id}` : `client:${client.uid}`;
+}
+
+/**
+ * Run several reads in one eth_call through Multicall3.
+ * Falls back to individual (JSON-RPC batched) calls when Multicall3 is
+ * unavailable or any call reverts, so the real revert surfaces.
+ */
+export async function multicall(client: PublicClient | string, calls: MulticallRequest[]): Promise<unknown[]> {
+  const publicClient = toPublicClient(client);
+  const contracts = calls.map((call) => ({
+    address: call.target,
+    abi: call.abi,
+    functionName: call.functionName,
+    args: call.args ?? [],
+  }));
+
+  try {
+    return await publicClient.multicall({
+      contracts,
+      allowFailure: false,
+      multicallAddress: MULTICALL3_ADDRESS,
+    });
+  } catch {
+    return Promise.all(contracts.map((contract) => publicClient.readContract(contract)));
+  }
+}
+
+/**
+ * Get a token's name, symbol and decimals (read once per token and chain, then cached)
+ */
+export function getTokenMetadata(contractAddress: Address, client: PublicClient | string): Promise<TokenMetadata> {
+  const networkKey = getClientKey(client);
+  const key = `${networkKey}:${contractAddress.toLowerCase()}`;
+  const cached = metadataCache.get(key);
+  if (cached) return cached;
+
+  const pending = multicall(client, [
+    { target: contractAddress, abi: ERC20_ABI, functionName: 'name' },
+    { target: contractAddress, abi: ERC20_ABI, functionName: 'symbol' },
+    { target: contractAddress, abi: ERC20_ABI, functionName: 'decimals' },
+  ]).then(async ([name, symbol, decimals]) => ({
+    name: name as string,
+    symbol: symbol as string,
+    // Shares the decimals cache used by amount parsing
+    decimals: await resolveDecimals(contractAddress, networkKey, async () => Number(decimals)),
+  }));
+
+  metadataCache.set(key, pending);
+  // Failed reads, and tokens not initialized yet (empty name), are not cached
+  pending
+    .then((metadata) => metadata.name === '' && metadataCache.delete(key))
+    .catch(() => metadataCache.delete(key));
+  return pending;
+}
+
+/**
+ * Clear cached token metadata (all tokens, or one token on one chain)
+ */
+export function clearTokenMetadataCache(contractAddress?: Address, client?: PublicClient | string): void {
+  if (contractAddress && client) {
+    metadataCache.delete(`${getClientKey(client)}:${contractAddress.toLowerCase()}`);
+  } else {
+    metadataCache.clear();
+  }
+}
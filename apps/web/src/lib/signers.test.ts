@@ -0,0 +1,149 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { getAddress, parseGwei, toHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { keystoreSigner, remoteSigner, type Keystore } from './signers';
+
+// Test vectors from the Web3 Secret Storage Definition (both KDFs encrypt the same key)
+const PASSWORD = 'testpassword';
+const PRIVATE_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+
+const PBKDF2_KEYSTORE: Keystore = {
+  version: 3,
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+};
+
+const SCRYPT_KEYSTORE: Keystore = {
+  version: 3,
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+    kdf: 'scrypt',
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      p: 8,
+      r: 1,
+      salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19',
+    },
+    mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097',
+  },
+};
+
+// Both KDFs are deliberately slow
+const KDF_TIMEOUT = 60_000;
+
+describe('keystoreSigner', () => {
+  const { address } = privateKeyToAccount(PRIVATE_KEY);
+
+  it.each([
+    ['pbkdf2', PBKDF2_KEYSTORE],
+    ['scrypt', SCRYPT_KEYSTORE],
+  ])('decrypts the %s test vector', async (_kdf, keystore) => {
+    const account = await keystoreSigner(JSON.stringify(keystore), PASSWORD);
+    expect(account.address).toBe(address);
+  }, KDF_TIMEOUT);
+
+  it('rejects a wrong password before decrypting', async () => {
+    await expect(keystoreSigner(PBKDF2_KEYSTORE, 'wrongpassword')).rejects.toThrow('Incorrect keystore password');
+  }, KDF_TIMEOUT);
+
+  it('rejects a keystore whose address does not match the key', async () => {
+    const keystore = { ...PBKDF2_KEYSTORE, address: '0000000000000000000000000000000000000001' };
+    await expect(keystoreSigner(keystore, PASSWORD)).rejects.toThrow('does not match');
+  }, KDF_TIMEOUT);
+});
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+const servers: Server[] = [];
+
+/**
+ * Start a remote signer that answers each JSON-RPC request as `answer` says, recording them
+ */
+async function mockSigner(answer: (request: JsonRpcRequest) => object) {
+  const mock = { url: '', requests: [] as JsonRpcRequest[] };
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const request = JSON.parse(Buffer.concat(chunks).toString('utf8')) as JsonRpcRequest;
+    mock.requests.push(request);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...answer(request) }));
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  mock.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return mock;
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((server) => {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(resolve));
+  }));
+});
+
+describe('remoteSigner', () => {
+  const FROM = getAddress('0x00000000000000000000000000000000000000a1');
+  const TO = getAddress('0x00000000000000000000000000000000000000b2');
+  const SIGNED = '0x02f86b';
+
+  it('signs transactions remotely with the chain id and sender', async () => {
+    const signer = await mockSigner(() => ({ result: SIGNED }));
+    const account = remoteSigner(signer.url, FROM);
+
+    await expect(account.signTransaction({
+      chainId: 421614,
+      to: TO,
+      value: BigInt(1),
+      nonce: 7,
+      gas: BigInt(21000),
+      maxFeePerGas: parseGwei('0.1'),
+      maxPriorityFeePerGas: BigInt(0),
+    })).resolves.toBe(SIGNED);
+    expect(signer.requests).toHaveLength(1);
+    expect(signer.requests[0].method).toBe('eth_signTransaction');
+    expect(signer.requests[0].params[0]).toMatchObject({
+      chainId: toHex(421614),
+      from: FROM,
+      to: TO,
+      value: '0x1',
+      nonce: '0x7',
+      gas: toHex(21000),
+    });
+  });
+
+  it('signs messages with eth_sign', async () => {
+    const signer = await mockSigner(() => ({ result: '0x1234' }));
+    const account = remoteSigner(signer.url, FROM);
+
+    await expect(account.signMessage({ message: 'hello' })).resolves.toBe('0x1234');
+    expect(signer.requests[0]).toMatchObject({ method: 'eth_sign', params: [FROM, toHex('hello')] });
+  });
+
+  it('surfaces JSON-RPC errors from the signer', async () => {
+    const signer = await mockSigner(() => ({ error: { code: -32000, message: 'account locked' } }));
+    const account = remoteSigner(signer.url, FROM);
+
+    await expect(account.signMessage({ message: 'hello' })).rejects.toThrow('Remote signer error: account locked');
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * ERC20 Token Signers
+ *
+ * Ways to get a TokenSigner other than a plaintext private key: a browser
+ * wallet, an encrypted JSON keystore, or a remote signing service.
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+import {
+  bytesToHex,
+  concat,
+  createWalletClient,
+  custom,
+  formatTransactionRequest,
+  getAddress,
+  hexToBytes,
+  isHex,
+  keccak256,
+  toHex,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import type {
+  Address,
+  EIP1193Provider,
+  Hex,
+  LocalAccount,
+  PrivateKeyAccount,
+  TransactionSerializable,
+  WalletClient,
+} from 'viem';
+
+/**
+ * Encrypted JSON keystore (Web3 Secret Storage v3), as written by geth, Foundry or ethers
+ */
+export interface Keystore {
+  version: 3;
+  address?: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams:
+      | { dklen: number; salt: string; n: number; r: number; p: number }
+      | { dklen: number; salt: string; c: number; prf: 'hmac-sha256' };
+    mac: string;
+  };
+}
+
+/**
+ * Signer from a raw private key
+ */
+export function privateKeySigner(privateKey: string): PrivateKeyAccount {
+  const key = (privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`) as Hex;
+  if (!isHex(key) || key.length !== 66) {
+    throw new Error('Private key must be 32 bytes of hex');
+  }
+  return privateKeyToAccount(key);
+}
+
+/**
+ * Signer for the browser's injected wallet (window.ethereum by default).
+ * Asks the wallet to connect; every write opens a wallet popup.
+ */
+export async function browserWalletSigner(provider?: EIP1193Provider): Promise<WalletClient> {
+  const ethereum = provider ?? (typeof window !== 'undefined'
+    ? (window as unknown as { ethereum?: EIP1193Provider }).ethereum
+    : undefined);
+  if (!ethereum) {
+    throw new Error('No browser wallet found');
+  }
+
+  const [address] = await ethereum.request({ method: 'eth_requestAccounts' });
+  if (!address) {
+    throw new Error('Browser wallet returned no accounts');
+  }
+  return createWalletClient({ account: getAddress(address), transport: custom(ethereum) });
+}
+
+/**
+ * Signer from an encrypted JSON keystore and its password.
+ * The key is only held in memory; nothing is written back.
+ */
+export async function keystoreSigner(keystore: string | Keystore, password: string): Promise<PrivateKeyAccount> {
+  const parsed: Keystore = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+  const { crypto } = parsed;
+  if (parsed.version !== 3 || crypto.cipher !== 'aes-128-ctr') {
+    throw new Error('Unsupported keystore: expected version 3 with aes-128-ctr');
+  }
+
+  const derivedKey = await deriveKeystoreKey(crypto.kdf, crypto.kdfparams, password);
+  const ciphertext = new Uint8Array(hexToBytes(prefixed(crypto.ciphertext)));
+
+  // The MAC proves the password before anything is decrypted
+  const mac = keccak256(concat([derivedKey.slice(16, 32), ciphertext]));
+  if (mac.slice(2).toLowerCase() !== crypto.mac.replace(/^0x/, '').toLowerCase()) {
+    throw new Error('Incorrect keystore password');
+  }
+
+  const aesKey = await globalThis.crypto.subtle.importKey('raw', derivedKey.slice(0, 16), 'AES-CTR', false, ['decrypt']);
+  const privateKey = await globalThis.crypto.subtle.decrypt(
+    { name: 'AES-CTR', counter: new Uint8Array(hexToBytes(prefixed(crypto.cipherparams.iv))), length: 128 },
+    aesKey,
+    ciphertext
+  );
+
+  const account = privateKeyToAccount(bytesToHex(new Uint8Array(privateKey)));
+  if (parsed.address && getAddress(prefixed(parsed.address)) !== account.address) {
+    throw new Error('Keystore address does not match the decrypted key');
+  }
+  return account;
+}
+
+/**
+ * Signer backed by a remote signing service speaking JSON-RPC over HTTP
+ * (eth_signTransaction, eth_sign, eth_signTypedData_v4), such as Web3Signer or Clef.
+ * Transactions are signed remotely and broadcast by the caller's RPC endpoint.
+ */
+export function remoteSigner(
+  url: string,
+  address: Address,
+  options: { headers?: Record<string, string> } = {}
+): LocalAccount {
+  let id = 0;
+  const call = async <T>(method: string, params: unknown[]): Promise<T> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++id, method, params }),
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer returned HTTP ${response.status}`);
+    }
+    const body = await response.json() as { result?: T; error?: { message: string } };
+    if (body.error) {
+      throw new Error(`Remote signer error: ${body.error.message}`);
+    }
+    return body.result as T;
+  };
+
+  return toAccount({
+    address: getAddress(address),
+    signMessage: ({ message }) =>
+      call<Hex>('eth_sign', [address, typeof message === 'string' ? toHex(message) : toRawHex(message.raw)]),
+    // formatTransactionRequest leaves out the chain id, which the signer needs for replay protection
+    signTransaction: async ({ chainId, sidecars, ...transaction }: TransactionSerializable) => {
+      if (sidecars) {
+        throw new Error('Remote signers cannot sign blob transactions with sidecars');
+      }
+      return call<Hex>('eth_signTransaction', [{
+        ...formatTransactionRequest(transaction),
+        ...(chainId !== undefined ? { chainId: toHex(chainId) } : {}),
+        from: address,
+      }]);
+    },
+    signTypedData: (typedData) =>
+      call<Hex>('eth_signTypedData_v4', [
+        address,
+        JSON.stringify(typedData, (_, value) => (typeof value === 'bigint' ? value.toString() : value)),
+      ]),
+  });
+}
+
+async function deriveKeystoreKey(
+  kdf: Keystore['crypto']['kdf'],
+  params: Keystore['crypto']['kdfparams'],
+  password: string
+): Promise<Uint8Array> {
+  const salt = new Uint8Array(hexToBytes(prefixed(params.salt)));
+  const passwordBytes = new TextEncoder().encode(password.normalize('NFKC'));
+
+  if (kdf === 'scrypt' && 'n' in params) {
+    return scryptAsync(passwordBytes, salt, { N: params.n, r: params.r, p: params.p, dkLen: params.dklen });
+  }
+  if (kdf === 'pbkdf2' && 'c' in params) {
+    if (params.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported keystore PRF: ${params.prf}`);
+    }
+    const baseKey = await globalThis.crypto.subtle.importKey('raw', passwordBytes, 'PBKDF2', false, ['deriveBits']);
+    const bits = await globalThis.crypto.subtle.deriveBits(
+      { name: 'PBKDF2', salt, iterations: params.c, hash: 'SHA-256' },
+      baseKey,
+      params.dklen * 8
+    );
+    return new Uint8Array(bits);
+  }
+  throw new Error(`Unsupported keystore KDF: ${kdf}`);
+}
+
+function prefixed(hex: string): Hex {
+  return (hex.startsWith('0x') ? hex : `0x${hex}`) as Hex;
+}
+
+function toRawHex(raw: Hex | Uint8Array): Hex {
+  return typeof raw === 'string' ? raw : bytesToHex(raw);
+}
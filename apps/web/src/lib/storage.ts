@@ -0,0 +1,36 @@
+/**
+ * ERC20 Stylus Local Storage
+ *
+ * JSON persistence in localStorage; a no-op outside the browser.
+ */
+
+const STORAGE_PREFIX = 'cradle:erc20:';
+
+/**
+ * Read a stored JSON value, falling back when missing or unreadable
+ */
+export function readStored<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Store a JSON value
+ */
+export function writeStored<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+}
+
+/**
+ * Remove a stored value
+ */
+export function removeStored(key: string): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(STORAGE_PREFIX + key);
+}
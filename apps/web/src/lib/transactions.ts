@@ -0,0 +1,152 @@
+/**
+ * ERC20 Transaction History
+ *
+ * A per-account log of submitted token transactions, persisted so pending
+ * transactions can be re-attached to after a page reload.
+ */
+
+import { TransactionNotFoundError, WaitForTransactionReceiptTimeoutError } from 'viem';
+import type { Address, Hash, PublicClient } from 'viem';
+import type { SupportedNetwork } from './constants';
+import { toPublicClient } from './provider';
+import { readStored, writeStored, removeStored } from './storage';
+import type { TransactionRecord } from './types';
+
+// Oldest entries are dropped beyond this
+const MAX_RECORDS = 50;
+
+const logKey = (network: SupportedNetwork, account: Address) =>
+  `transactions:${network}:${account.toLowerCase()}`;
+
+const listeners = new Set<() => void>();
+// One receipt watcher per hash, however many components ask
+const tracking = new Map<Hash, Promise<TransactionRecord>>();
+
+/**
+ * Get an account's transaction log, newest first
+ */
+export function getTransactionLog(network: SupportedNetwork, account: Address): TransactionRecord[] {
+  return readStored<TransactionRecord[]>(logKey(network, account), []);
+}
+
+/**
+ * Add a transaction to its account's log (replacing any record with the same hash)
+ */
+export function recordTransaction(record: TransactionRecord): void {
+  const others = getTransactionLog(record.network, record.account).filter((r) => r.hash !== record.hash);
+  writeStored(logKey(record.network, record.account), [record, ...others].slice(0, MAX_RECORDS));
+  notify();
+}
+
+/**
+ * Update a logged transaction
+ */
+export function updateTransaction(
+  network: SupportedNetwork,
+  account: Address,
+  hash: Hash,
+  patch: Partial<Omit<TransactionRecord, 'hash' | 'network' | 'account'>>
+): TransactionRecord | undefined {
+  const log = getTransactionLog(network, account);
+  const index = log.findIndex((r) => r.hash === hash);
+  if (index === -1) return undefined;
+
+  log[index] = { ...log[index], ...patch, updatedAt: Date.now() };
+  writeStored(logKey(network, account), log);
+  notify();
+  return log[index];
+}
+
+/**
+ * Clear an account's transaction log
+ */
+export function clearTransactionLog(network: SupportedNetwork, account: Address): void {
+  removeStored(logKey(network, account));
+  notify();
+}
+
+/**
+ * Subscribe to changes of any transaction log; returns an unsubscribe function
+ */
+export function subscribeTransactionLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Wait for a logged transaction to settle and record the outcome:
+ * confirmed or failed from its receipt, replaced when the nonce was reused
+ * (speed-ups keep the outcome of the replacement), or dropped when the node
+ * no longer knows the hash after `timeout`. Still pending after a timeout
+ * leaves the record pending.
+ */
+export function trackTransaction(
+  record: TransactionRecord,
+  client: PublicClient | string,
+  options: { timeout?: number } = {}
+): Promise<TransactionRecord> {
+  const existing = tracking.get(record.hash);
+  if (existing) return existing;
+
+  const pending = waitForOutcome(record, toPublicClient(client), options.timeout)
+    .finally(() => tracking.delete(record.hash));
+  tracking.set(record.hash, pending);
+  return pending;
+}
+
+/**
+ * Re-attach to every pending transaction in an account's log
+ */
+export function resumePendingTransactions(
+  network: SupportedNetwork,
+  account: Address,
+  client: PublicClient | string
+): Promise<TransactionRecord[]> {
+  const pending = getTransactionLog(network, account).filter((r) => r.status === 'pending');
+  return Promise.all(pending.map((record) => trackTransaction(record, client)));
+}
+
+async function waitForOutcome(
+  record: TransactionRecord,
+  publicClient: PublicClient,
+  timeout?: number
+): Promise<TransactionRecord> {
+  const { network, account, hash } = record;
+  let replacement: { reason: 'cancelled' | 'replaced' | 'repriced'; hash: Hash } | undefined;
+
+  try {
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash,
+      timeout,
+      onReplaced: (replaced) => {
+        replacement = { reason: replaced.reason, hash: replaced.transaction.hash };
+      },
+    });
+
+    const succeeded = receipt.status === 'success';
+    const patch = replacement && replacement.reason !== 'repriced'
+      ? { status: 'replaced' as const, replacedBy: replacement.hash, error: `Transaction was ${replacement.reason}` }
+      : {
+          status: succeeded ? 'confirmed' as const : 'failed' as const,
+          replacedBy: replacement?.hash,
+          blockNumber: receipt.blockNumber.toString(),
+          error: succeeded ? undefined : 'Transaction reverted',
+        };
+    return updateTransaction(network, account, hash, patch) ?? { ...record, ...patch };
+  } catch (err) {
+    if (!(err instanceof WaitForTransactionReceiptTimeoutError || err instanceof TransactionNotFoundError)) {
+      throw err;
+    }
+    const transaction = await publicClient.getTransaction({ hash }).catch(() => null);
+    if (transaction) return record;
+
+    const patch = { status: 'dropped' as const, error: 'Transaction is no longer known to the network' };
+    return updateTransaction(network, account, hash, patch) ?? { ...record, ...patch };
+  }
+}
@@ -0,0 +1,126 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createRpcTransport, checkRpcHealth, getRpcHealth, resetRpcHealth, type RpcTransportOptions } from './transport';
+
+interface Reply {
+  status?: number;
+  headers?: Record<string, string>;
+  delay?: number;
+}
+
+interface MockRpc {
+  url: string;
+  // Requests received so far
+  hits: number;
+}
+
+const servers: Server[] = [];
+
+/**
+ * Start a JSON-RPC endpoint that answers request n (from 0) as `script(n)` says,
+ * and with its own number as the block number otherwise
+ */
+async function mockRpc(script: (n: number) => Reply = () => ({})): Promise<MockRpc> {
+  const mock = { url: '', hits: 0 };
+  const server = createServer(async (req, res) => {
+    const n = mock.hits++;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    const { status = 200, headers = {}, delay = 0 } = script(n);
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (res.destroyed) return;
+    if (status !== 200) {
+      res.writeHead(status, headers);
+      res.end();
+      return;
+    }
+    const respond = ({ id }: { id: number }) => ({ jsonrpc: '2.0', id, result: `0x${(n + 1).toString(16)}` });
+    res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(Array.isArray(body) ? body.map(respond) : respond(body)));
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  mock.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return mock;
+}
+
+function blockNumber(urls: string[], options: RpcTransportOptions = {}): Promise<unknown> {
+  return createRpcTransport(urls, { retryDelay: 20, ...options })({}).request({ method: 'eth_blockNumber' });
+}
+
+afterEach(async () => {
+  resetRpcHealth();
+  await Promise.all(servers.splice(0).map((server) => {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(resolve));
+  }));
+});
+
+describe('createRpcTransport', () => {
+  it('moves on from a rate-limited endpoint and rests it for its Retry-After', async () => {
+    const limited = await mockRpc(() => ({ status: 429, headers: { 'Retry-After': '2' } }));
+    const backup = await mockRpc();
+
+    const before = Date.now();
+    await expect(blockNumber([limited.url, backup.url])).resolves.toBe('0x1');
+    const [health] = getRpcHealth([limited.url]);
+    expect(health).toMatchObject({ status: 'degraded', rateLimited: true, lastError: 'HTTP 429' });
+    expect(health.cooldownUntil).toBeGreaterThanOrEqual(before + 2000);
+
+    // Still cooling down, so the next request skips it
+    await expect(blockNumber([limited.url, backup.url])).resolves.toBe('0x2');
+    expect(limited.hits).toBe(1);
+    expect(backup.hits).toBe(2);
+  });
+
+  it('moves on from an endpoint that times out', async () => {
+    const slow = await mockRpc(() => ({ delay: 1000 }));
+    const backup = await mockRpc();
+
+    await expect(blockNumber([slow.url, backup.url], { timeout: 100 })).resolves.toBe('0x1');
+    expect(getRpcHealth([slow.url])[0]).toMatchObject({ status: 'degraded', lastError: 'Request timed out' });
+  });
+
+  it('moves on from server errors and gives up after every retry fails', async () => {
+    const failing = await mockRpc(() => ({ status: 503 }));
+    const backup = await mockRpc();
+
+    await expect(blockNumber([failing.url, backup.url])).resolves.toBe('0x1');
+    expect(getRpcHealth([failing.url])[0]).toMatchObject({ status: 'degraded', lastError: 'HTTP 503' });
+
+    const down = await mockRpc(() => ({ status: 500 }));
+    await expect(blockNumber([down.url], { retryCount: 2 })).rejects.toThrow();
+    expect(down.hits).toBe(3);
+    expect(getRpcHealth([down.url])[0]).toMatchObject({ status: 'down', consecutiveFailures: 3 });
+  });
+
+  it('recovers once an endpoint comes back after backoff', async () => {
+    const flaky = await mockRpc((n) => (n < 2 ? { status: 502 } : {}));
+
+    const started = Date.now();
+    await expect(blockNumber([flaky.url], { retryCount: 3 })).resolves.toBe('0x3');
+    // Waited 20 ms, then 40 ms, between passes
+    expect(Date.now() - started).toBeGreaterThanOrEqual(60);
+    expect(flaky.hits).toBe(3);
+    expect(getRpcHealth([flaky.url])[0]).toMatchObject({ status: 'healthy', consecutiveFailures: 0, rateLimited: false });
+  });
+
+  it('prefers the fastest endpoint once latency has been measured', async () => {
+    const slow = await mockRpc(() => ({ delay: 150 }));
+    const fast = await mockRpc();
+
+    // Unmeasured endpoints are tried in the order given
+    await blockNumber([slow.url, fast.url]);
+    expect([slow.hits, fast.hits]).toEqual([1, 0]);
+
+    const health = await checkRpcHealth([slow.url, fast.url]);
+    expect(health[1].latency).toBeLessThan(health[0].latency!);
+
+    await blockNumber([slow.url, fast.url]);
+    await blockNumber([slow.url, fast.url]);
+    expect([slow.hits, fast.hits]).toEqual([2, 3]);
+  });
+});
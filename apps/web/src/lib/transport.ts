@@ -0,0 +1,254 @@
+/**
+ * ERC20 RPC Transport
+ *
+ * A viem transport over several RPC endpoints of one network. Each request goes
+ * to the fastest endpoint that isn't cooling down; rate limits, timeouts and
+ * server errors move on to the next endpoint, and a pass that fails everywhere
+ * is retried with exponential backoff. Endpoint health is shared by every
+ * client using the same URL.
+ */
+
+import { createTransport, http, HttpRequestError, TimeoutError } from 'viem';
+import type { EIP1193RequestFn, Transport } from 'viem';
+import type { RpcEndpointHealth } from './types';
+
+const DEFAULT_RETRY_COUNT = 3;
+const DEFAULT_RETRY_DELAY = 250;
+const DEFAULT_TIMEOUT = 10_000;
+const MAX_COOLDOWN = 60_000;
+// Weight of the newest sample in the latency moving average
+const LATENCY_WEIGHT = 0.3;
+// Consecutive failures after which an endpoint is reported down
+const DOWN_AFTER = 3;
+
+// Submitting twice is harmless, but a timed-out submission may already be in the
+// mempool, so these only move to another endpoint when they were rate limited
+const SEND_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+/**
+ * Options for the failover transport
+ */
+export interface RpcTransportOptions {
+  // Passes over the endpoints after the first one fails everywhere
+  retryCount?: number;
+  // Base delay (ms) for exponential backoff between passes and endpoint cooldowns
+  retryDelay?: number;
+  // Per-request timeout (ms)
+  timeout?: number;
+}
+
+type Failure = 'rate-limited' | 'unavailable';
+
+interface EndpointState {
+  latency?: number;
+  consecutiveFailures: number;
+  rateLimited: boolean;
+  lastError?: string;
+  lastSuccessAt?: number;
+  cooldownUntil?: number;
+}
+
+const endpoints = new Map<string, EndpointState>();
+const listeners = new Set<() => void>();
+
+/**
+ * Create a transport that fails over between `urls`, preferred first until
+ * latency has been observed
+ */
+export function createRpcTransport(urls: readonly string[], options: RpcTransportOptions = {}): Transport<'failover'> {
+  if (urls.length === 0) {
+    throw new Error('At least one RPC endpoint is required');
+  }
+  const {
+    retryCount = DEFAULT_RETRY_COUNT,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    timeout = DEFAULT_TIMEOUT,
+  } = options;
+
+  return ({ chain }) => {
+    // Retries happen here, across endpoints, rather than inside each endpoint's transport
+    const clients = new Map(urls.map((url) => [
+      url,
+      http(url, { batch: true, retryCount: 0, timeout })({ chain, retryCount: 0, timeout }),
+    ]));
+
+    const request = (async ({ method, params }) => {
+      let lastError: unknown;
+      for (let attempt = 0; attempt <= retryCount; attempt++) {
+        if (attempt > 0) await wait(retryDelay * 2 ** (attempt - 1));
+        // Every endpoint is resting: wait for the first to come back rather than fail
+        if (rankEndpoints(urls).length === 0) await wait(untilAvailable(urls));
+
+        for (const url of rankEndpoints(urls)) {
+          const started = Date.now();
+          try {
+            const result = await clients.get(url)!.request({ method, params });
+            recordSuccess(url, Date.now() - started);
+            return result;
+          } catch (err) {
+            const failure = classifyFailure(err);
+            // JSON-RPC errors such as reverts are the same on every endpoint
+            if (!failure || (SEND_METHODS.has(method) && failure !== 'rate-limited')) throw err;
+            recordFailure(url, failure, err, retryDelay);
+            lastError = err;
+          }
+        }
+      }
+      throw lastError;
+    }) as EIP1193RequestFn;
+
+    return createTransport({
+      key: 'failover',
+      name: 'Failover JSON-RPC',
+      type: 'failover',
+      request,
+      // Retries are handled above
+      retryCount: 0,
+      timeout,
+    });
+  };
+}
+
+/**
+ * Probe endpoints with eth_blockNumber, updating their health and latency
+ * (which also orders failover), and return the result
+ */
+export async function checkRpcHealth(urls: string[], options: { timeout?: number } = {}): Promise<RpcEndpointHealth[]> {
+  const { timeout = DEFAULT_TIMEOUT } = options;
+  await Promise.all(urls.map(async (url) => {
+    const started = Date.now();
+    try {
+      await http(url, { retryCount: 0, timeout })({ retryCount: 0, timeout }).request({ method: 'eth_blockNumber' });
+      recordSuccess(url, Date.now() - started);
+    } catch (err) {
+      recordFailure(url, classifyFailure(err) ?? 'unavailable', err, DEFAULT_RETRY_DELAY);
+    }
+  }));
+  return getRpcHealth(urls);
+}
+
+/**
+ * Get the observed health of endpoints, in the order given
+ */
+export function getRpcHealth(urls: string[]): RpcEndpointHealth[] {
+  return urls.map((url) => {
+    const state = endpoints.get(url);
+    if (!state) {
+      return { url, status: 'unknown', consecutiveFailures: 0, rateLimited: false };
+    }
+    const status = state.consecutiveFailures >= DOWN_AFTER
+      ? 'down'
+      : state.consecutiveFailures > 0
+        ? 'degraded'
+        : 'healthy';
+    return { url, status, ...state };
+  });
+}
+
+/**
+ * Forget observed health (all endpoints, or the given ones)
+ */
+export function resetRpcHealth(urls?: string[]): void {
+  if (urls) {
+    urls.forEach((url) => endpoints.delete(url));
+  } else {
+    endpoints.clear();
+  }
+  notify();
+}
+
+/**
+ * Subscribe to endpoint health changes; returns an unsubscribe function
+ */
+export function subscribeRpcHealth(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function stateOf(url: string): EndpointState {
+  let state = endpoints.get(url);
+  if (!state) {
+    state = { consecutiveFailures: 0, rateLimited: false };
+    endpoints.set(url, state);
+  }
+  return state;
+}
+
+function recordSuccess(url: string, latency: number): void {
+  const state = stateOf(url);
+  state.latency = state.latency === undefined
+    ? latency
+    : Math.round(state.latency + LATENCY_WEIGHT * (latency - state.latency));
+  state.consecutiveFailures = 0;
+  state.rateLimited = false;
+  state.cooldownUntil = undefined;
+  state.lastSuccessAt = Date.now();
+  notify();
+}
+
+function recordFailure(url: string, failure: Failure, err: unknown, retryDelay: number): void {
+  const state = stateOf(url);
+  state.consecutiveFailures += 1;
+  state.rateLimited = failure === 'rate-limited';
+  state.lastError = describeFailure(err);
+  // Rest the endpoint for as long as it asks, or exponentially longer each failure
+  const cooldown = retryAfter(err) ?? retryDelay * 2 ** (state.consecutiveFailures - 1);
+  state.cooldownUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN);
+  notify();
+}
+
+// Endpoints that aren't cooling down, fastest first; unmeasured ones keep their configured order after measured ones
+function rankEndpoints(urls: readonly string[]): string[] {
+  const now = Date.now();
+  const latency = (url: string) => endpoints.get(url)?.latency ?? Number.MAX_SAFE_INTEGER;
+  return urls
+    .filter((url) => (endpoints.get(url)?.cooldownUntil ?? 0) <= now)
+    .sort((a, b) => latency(a) - latency(b));
+}
+
+// Time until the first endpoint comes off cooldown
+function untilAvailable(urls: readonly string[]): number {
+  const now = Date.now();
+  const soonest = Math.min(...urls.map((url) => endpoints.get(url)?.cooldownUntil ?? now));
+  return Math.max(0, soonest - now);
+}
+
+// Whether a failed request is worth sending to another endpoint
+function classifyFailure(err: unknown): Failure | undefined {
+  if (err instanceof TimeoutError) return 'unavailable';
+  if (err instanceof HttpRequestError) {
+    if (err.status === 429) return 'rate-limited';
+    // No status means the endpoint couldn't be reached
+    if (!err.status || err.status === 403 || err.status === 408 || err.status >= 500) return 'unavailable';
+    return undefined;
+  }
+  const code = (err as { code?: unknown })?.code;
+  // Standard and provider-specific JSON-RPC rate limit codes
+  if (code === -32005 || code === -32007 || code === 429) return 'rate-limited';
+  return undefined;
+}
+
+function describeFailure(err: unknown): string {
+  if (err instanceof HttpRequestError && err.status) return `HTTP ${err.status}`;
+  if (err instanceof TimeoutError) return 'Request timed out';
+  return err instanceof Error ? (err as { shortMessage?: string }).shortMessage ?? err.message : String(err);
+}
+
+function retryAfter(err: unknown): number | undefined {
+  const header = err instanceof HttpRequestError ? err.headers?.get('Retry-After') : undefined;
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -2,17 +2,33 @@
  * ERC20 Stylus Types
  */
 
-import type { Address, Hash, PublicClient, WalletClient } from 'viem';
+import type { Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
 import type { SupportedNetwork } from './constants';
 
+/**
+ * Optional token extensions the deployment API builds in
+ */
+export type TokenFeature = 'ownable' | 'mintable' | 'burnable' | 'pausable';
+
 /**
  * Token deployment parameters
  */
 export interface DeployTokenParams {
   name: string;
   symbol: string;
+  // Whole tokens
   initialSupply: string;
   factoryAddress?: Address;
+  // Defaults to every feature
+  features?: TokenFeature[];
+}
+
+/**
+ * A deployment parameter that failed validation
+ */
+export interface DeployTokenParamsError {
+  field: 'name' | 'symbol' | 'initialSupply' | 'features';
+  message: string;
 }
 
 /**
@@ -20,11 +36,95 @@ export interface DeployTokenParams {
  */
 export interface DeployTokenResult {
   tokenAddress: Address;
-  txHash: Hash;
+  // Undefined when a resumed deployment has no recorded deployment transaction
+  txHash?: Hash;
   success: boolean;
   deployOutput?: string;
   initOutput?: string;
   registerOutput?: string;
+  stages?: DeploymentStageProgress[];
+}
+
+/**
+ * Unsigned Stylus deployment returned by the deployment API for wallet signing.
+ * Activation goes through the ArbWasm precompile once the program address is known.
+ */
+export interface UnsignedStylusDeployment {
+  deployTransaction: {
+    data: Hex;
+    value?: string;
+  };
+  activationValue: string;
+}
+
+/**
+ * Body of a deployment API request signed by the API (/deploy-token and /deployments)
+ */
+export interface DeployTokenRequest extends DeployTokenParams {
+  privateKey: string;
+  rpcEndpoint: string;
+}
+
+/**
+ * Body of a /prepare-deployment request; only public parameters are sent
+ */
+export interface PrepareDeploymentRequest extends DeployTokenParams {
+  from: Address;
+  rpcEndpoint: string;
+}
+
+/**
+ * How a deployment is signed: by the deployment API with a private key,
+ * or by the connected wallet so no secret leaves the browser
+ */
+export type DeploymentMode = 'api' | 'wallet';
+
+/**
+ * Deployment pipeline stages, in order
+ */
+export type DeploymentStage = 'deploying' | 'activating' | 'initializing' | 'registering';
+
+/**
+ * Progress of a single deployment stage
+ */
+export interface DeploymentStageProgress {
+  stage: DeploymentStage;
+  status: 'pending' | 'running' | 'complete' | 'failed' | 'skipped';
+  txHash?: Hash;
+  output?: string;
+}
+
+/**
+ * Progress snapshot reported by the deployment API while a deployment runs
+ */
+export interface DeploymentProgress {
+  deploymentId: string;
+  status: DeploymentStage | 'success' | 'error';
+  stages: DeploymentStageProgress[];
+  tokenAddress?: Address;
+  error?: string;
+}
+
+/**
+ * Locally persisted record of a deployment, used to resume after a partial failure
+ */
+export interface DeploymentRecord {
+  tokenAddress: Address;
+  network: SupportedNetwork;
+  params: DeployTokenParams;
+  completedStages: DeploymentStage[];
+  txHashes: Partial<Record<DeploymentStage, Hash>>;
+  updatedAt: number;
+}
+
+/**
+ * On-chain status of a deployed token
+ */
+export interface DeploymentStatus {
+  deployed: boolean;
+  activated: boolean;
+  initialized: boolean;
+  registered: boolean;
 }
 
 /**
@@ -41,6 +141,39 @@ export interface TokenInfo {
   paused: boolean;
 }
 
+/**
+ * Token metadata as registered in the factory
+ */
+export interface FactoryToken {
+  address: Address;
+  owner: Address;
+  name: string;
+  symbol: string;
+  initialSupply: bigint;
+  createdAt: bigint;
+}
+
+/**
+ * Page of factory tokens
+ */
+export interface FactoryTokenPage {
+  tokens: FactoryToken[];
+  offset: number;
+  total: number;
+}
+
+/**
+ * Token tracked in the local watchlist
+ */
+export interface WatchlistEntry {
+  address: Address;
+  network: SupportedNetwork;
+  name: string;
+  symbol: string;
+  decimals: number;
+  addedAt: number;
+}
+
 /**
  * Balance information
  */
@@ -57,6 +190,175 @@ export interface AllowanceInfo {
   formatted: string;
 }
 
+/**
+ * Decoded Transfer event (mints come from and burns go to the zero address)
+ */
+export interface TransferEvent {
+  kind: 'mint' | 'burn' | 'transfer';
+  from: Address;
+  to: Address;
+  value: bigint;
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * Decoded Approval event
+ */
+export interface ApprovalEvent {
+  kind: 'approval';
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * Token activity entry
+ */
+export type TokenActivity = TransferEvent | ApprovalEvent;
+
+/**
+ * Options for reading event history
+ */
+export interface EventHistoryOptions {
+  // Defaults to the contract's deployment block
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  // Only events where this account is either side
+  account?: Address;
+  // Blocks per eth_getLogs request
+  chunkSize?: bigint;
+}
+
+/**
+ * Live allowance for a spender found in the owner's Approval history
+ */
+export interface AllowanceEntry {
+  spender: Address;
+  allowance: bigint;
+  isUnlimited: boolean;
+  lastApprovedBlock: bigint;
+}
+
+/**
+ * Validated row of a batch transfer
+ */
+export interface BatchTransferRow {
+  index: number;
+  // Source line (CSV) or array position (JSON), 1-based
+  line: number;
+  to: Address;
+  amount: string;
+  value: bigint;
+}
+
+/**
+ * Input row rejected while parsing a batch
+ */
+export interface BatchRowError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a batch transfer list
+ */
+export interface BatchParseResult {
+  rows: BatchTransferRow[];
+  errors: BatchRowError[];
+}
+
+/**
+ * Batch total checked against the sender's balance
+ */
+export interface BatchSummary {
+  count: number;
+  total: bigint;
+  formattedTotal: string;
+  // Total of rows not yet confirmed, which is what the balance must still cover
+  remaining: bigint;
+  formattedRemaining: string;
+  exceedsBalance: boolean;
+}
+
+/**
+ * Outcome of one batch row
+ */
+export interface BatchRowResult {
+  index: number;
+  to: Address;
+  amount: string;
+  status: 'pending' | 'sent' | 'confirmed' | 'failed';
+  hash?: Hash;
+  // Nonce the transfer was sent with, to tell a dropped transaction from a replaced one
+  nonce?: number;
+  error?: string;
+  sentAt?: number;
+  confirmedAt?: number;
+}
+
+/**
+ * Estimated gas and fees for a write, with Arbitrum's L1/L2 split.
+ * L1 gas is the calldata posting cost, priced in L2 gas units.
+ */
+export interface FeeEstimate {
+  gasLimit: bigint;
+  l1Gas: bigint;
+  l2Gas: bigint;
+  // Wei per gas
+  gasPrice: bigint;
+  l1Fee: bigint;
+  l2Fee: bigint;
+  totalFee: bigint;
+  // Total fee in ETH
+  formattedTotalFee: string;
+  // False when the NodeInterface was unavailable and the L1 share is unknown
+  hasL1Breakdown: boolean;
+}
+
+/**
+ * Logged token transaction.
+ * `dropped` means the node no longer knows the hash; `replaced` means another
+ * transaction with the same nonce (a cancel or different call) was mined instead.
+ */
+export interface TransactionRecord {
+  hash: Hash;
+  // Contract function, e.g. 'transfer'
+  kind: string;
+  // Call arguments as strings (bigints are not JSON-serializable)
+  args: string[];
+  contractAddress: Address;
+  network: SupportedNetwork;
+  account: Address;
+  status: 'pending' | 'confirmed' | 'failed' | 'dropped' | 'replaced';
+  replacedBy?: Hash;
+  blockNumber?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Observed health of one RPC endpoint.
+ * `unknown` until the endpoint has been used or checked; `down` after repeated failures.
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  status: 'unknown' | 'healthy' | 'degraded' | 'down';
+  // Moving average of response time, in ms
+  latency?: number;
+  consecutiveFailures: number;
+  rateLimited: boolean;
+  lastError?: string;
+  lastSuccessAt?: number;
+  // Requests skip the endpoint until then
+  cooldownUntil?: number;
+}
+
 /**
  * Transaction state
  */
@@ -67,6 +369,25 @@ export type TransactionState =
   | { status: 'success'; hash: Hash }
   | { status: 'error'; error: Error };
 
+/**
+ * State of one write started through the interactions hook
+ */
+export interface TransactionOperation {
+  id: string;
+  // Contract function, e.g. 'mint'
+  kind: string;
+  state: TransactionState;
+  startedAt: number;
+}
+
+/**
+ * Options accepted by every write of the interactions hook
+ */
+export interface WriteOptions {
+  // Key to track the operation under with getOperation and isOperationPending
+  requestId: string;
+}
+
 /**
  * Deployment state
  */
@@ -90,9 +411,12 @@ export type AsyncState<T> =
 
 /**
  * Configuration for deployment hook (uses wagmi)
+ *
+ * `mode` defaults to 'api' when a private key is given and 'wallet' otherwise.
  */
 export interface UseERC20DeployOptions {
   network: SupportedNetwork;
+  mode?: DeploymentMode;
   privateKey?: string;
   rpcEndpoint?: string;
   publicClient?: PublicClient;
@@ -103,6 +427,8 @@ export interface UseERC20DeployOptions {
 
 /**
  * Configuration for interactions hook (uses wagmi)
+ *
+ * Clients and user address default to the connected wagmi wallet.
  */
 export interface UseERC20InteractionsOptions {
   contractAddress: Address;
@@ -110,6 +436,164 @@ export interface UseERC20InteractionsOptions {
   publicClient?: PublicClient;
   walletClient?: WalletClient;
   userAddress?: Address;
+  // Keep tokenInfo and balance live from Transfer and Approval events, polling the paused state and owner
+  watch?: boolean;
+  // Milliseconds between polls when the transport cannot subscribe
+  pollingInterval?: number;
+  // Called for each watched Approval; pass a stable callback to avoid resubscribing
+  onApproval?: (event: ApprovalEvent) => void;
+}
+
+/**
+ * Configuration for token activity hook (uses wagmi)
+ */
+export interface UseTokenActivityOptions {
+  contractAddress: Address;
+  network: SupportedNetwork;
+  account?: Address;
+  publicClient?: PublicClient;
+  // Blocks scanned per page, walking back from the latest block
+  pageSize?: bigint;
+}
+
+/**
+ * Return type for token activity hook
+ */
+export interface UseTokenActivityReturn {
+  activity: AsyncState<TokenActivity[]>;
+  loadMore: () => Promise<void>;
+  // False once paging reaches the token's deployment block
+  hasMore: boolean;
+  // Older pages load alongside the entries already shown
+  loadingMore: boolean;
+  loadMoreError: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Configuration for factory tokens hook (uses wagmi)
+ */
+export interface UseFactoryTokensOptions {
+  network: SupportedNetwork;
+  factoryAddress?: Address;
+  // Only tokens created by this account (from TokenCreated logs)
+  creator?: Address;
+  // First block of the creator log scan; defaults to the network's factoryDeploymentBlock
+  fromBlock?: bigint;
+  // Case-insensitive match on name or symbol
+  search?: string;
+  pageSize?: number;
+  publicClient?: PublicClient;
+}
+
+/**
+ * Return type for factory tokens hook
+ */
+export interface UseFactoryTokensReturn {
+  tokens: AsyncState<FactoryToken[]>;
+  total: number | null;
+  loadMore: () => Promise<void>;
+  hasMore: boolean;
+  // Later pages load alongside the tokens already shown
+  loadingMore: boolean;
+  loadMoreError: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Configuration for allowances hook (uses wagmi)
+ */
+export interface UseTokenAllowancesOptions {
+  contractAddress: Address;
+  network: SupportedNetwork;
+  owner?: Address;
+  publicClient?: PublicClient;
+}
+
+/**
+ * Return type for allowances hook
+ */
+export interface UseTokenAllowancesReturn {
+  allowances: AsyncState<AllowanceEntry[]>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Configuration for batch transfer hook (uses wagmi)
+ */
+export interface UseBatchTransferOptions {
+  contractAddress: Address;
+  network: SupportedNetwork;
+  publicClient?: PublicClient;
+  walletClient?: WalletClient;
+  userAddress?: Address;
+}
+
+/**
+ * Return type for batch transfer hook
+ */
+export interface UseBatchTransferReturn {
+  // Parse and validate input; rows and summary reflect the last parse
+  parse: (input: string) => Promise<BatchParseResult>;
+  rows: BatchTransferRow[];
+  parseErrors: BatchRowError[];
+  summary: BatchSummary | null;
+  // Run (or resume) the parsed batch
+  run: () => Promise<BatchRowResult[]>;
+  stop: () => void;
+  results: BatchRowResult[];
+  isRunning: boolean;
+  error: Error | null;
+  exportReport: (format?: 'csv' | 'json') => string;
+  reset: () => void;
+}
+
+/**
+ * Configuration for transaction history hook (uses wagmi)
+ */
+export interface UseTransactionHistoryOptions {
+  network: SupportedNetwork;
+  account?: Address;
+  publicClient?: PublicClient;
+}
+
+/**
+ * Return type for transaction history hook
+ */
+export interface UseTransactionHistoryReturn {
+  transactions: TransactionRecord[];
+  pending: TransactionRecord[];
+  clear: () => void;
+}
+
+/**
+ * Configuration for RPC health hook
+ */
+export interface UseRpcHealthOptions {
+  network: SupportedNetwork;
+  // Probe every endpoint this often (ms); 0 only reports what requests observe
+  checkInterval?: number;
+}
+
+/**
+ * Return type for RPC health hook
+ */
+export interface UseRpcHealthReturn {
+  endpoints: RpcEndpointHealth[];
+  // Whether any endpoint is currently usable
+  isHealthy: boolean;
+  check: () => Promise<void>;
+}
+
+/**
+ * Return type for watchlist hook
+ */
+export interface UseTokenWatchlistReturn {
+  tokens: WatchlistEntry[];
+  addToken: (tokenAddress: string) => Promise<WatchlistEntry>;
+  removeToken: (tokenAddress: Address) => void;
+  isAdding: boolean;
+  error: Error | null;
 }
 
 /**
@@ -118,6 +602,9 @@ export interface UseERC20InteractionsOptions {
 export interface UseERC20DeployReturn {
   deployToken: (params: DeployTokenParams) => Promise<DeployTokenResult>;
   deploymentState: DeploymentState;
+  stages: DeploymentStageProgress[];
+  resumeDeployment: (tokenAddress: Address) => Promise<DeployTokenResult>;
+  deploymentRecords: DeploymentRecord[];
   isDeploying: boolean;
   error: Error | null;
   reset: () => void;
@@ -137,18 +624,39 @@ export interface UseERC20InteractionsReturn {
   
   // Allowance
   getAllowance: (spender: Address) => Promise<AllowanceInfo>;
+  // Approve, resetting a non-zero allowance to zero first (avoids approve front-running)
+  safeApprove: (spender: Address, amount: string, options: WriteOptions) => Promise<Hash>;
+  revoke: (spender: Address, options: WriteOptions) => Promise<Hash>;
+  
+  // Fee estimates for the connected account (no wallet popup)
+  estimateTransfer: (to: Address, amount: string) => Promise<FeeEstimate>;
+  estimateApprove: (spender: Address, amount: string) => Promise<FeeEstimate>;
+  estimateMint: (to: Address, amount: string) => Promise<FeeEstimate>;
+  estimateBurn: (amount: string) => Promise<FeeEstimate>;
+  estimatePause: () => Promise<FeeEstimate>;
+  estimateUnpause: () => Promise<FeeEstimate>;
   
   // Transactions (uses wallet popup)
-  transfer: (to: Address, amount: string) => Promise<Hash>;
-  approve: (spender: Address, amount: string) => Promise<Hash>;
-  transferFrom: (from: Address, to: Address, amount: string) => Promise<Hash>;
-  mint: (to: Address, amount: string) => Promise<Hash>;
-  burn: (amount: string) => Promise<Hash>;
-  pause: () => Promise<Hash>;
-  unpause: () => Promise<Hash>;
-  transferOwnership: (newOwner: Address) => Promise<Hash>;
+  transfer: (to: Address, amount: string, options: WriteOptions) => Promise<Hash>;
+  approve: (spender: Address, amount: string, options: WriteOptions) => Promise<Hash>;
+  transferFrom: (from: Address, to: Address, amount: string, options: WriteOptions) => Promise<Hash>;
+  mint: (to: Address, amount: string, options: WriteOptions) => Promise<Hash>;
+  burn: (amount: string, options: WriteOptions) => Promise<Hash>;
+  pause: (options: WriteOptions) => Promise<Hash>;
+  unpause: (options: WriteOptions) => Promise<Hash>;
+  transferOwnership: (newOwner: Address, options: WriteOptions) => Promise<Hash>;
+  
+  // Network (writes are refused while the wallet is on another chain)
+  isWrongNetwork: boolean;
+  switchNetwork: () => Promise<void>;
+  
+  // Per-operation state, keyed by the requestId given to a write
+  operations: Record<string, TransactionOperation>;
+  getOperation: (requestId: string) => TransactionState;
+  isOperationPending: (requestId: string) => boolean;
+  clearOperation: (requestId: string) => void;
   
-  // Transaction state
+  // Most recent operation's state; isLoading is true while any operation is in flight
   txState: TransactionState;
   isLoading: boolean;
   error: Error | null;
@@ -1,14 +1,24 @@
 import { http, createConfig, cookieStorage, createStorage } from 'wagmi';
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
 import { chains } from './chains';
+import { getNetworkByChainId } from './networks';
+import { createRpcTransport } from './transport';
 
 const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || '';
 
+// Reads fail over between each network's RPC endpoints
+const transports = Object.fromEntries(
+  chains.map((chain) => [chain.id, createRpcTransport(getNetworkByChainId(chain.id)?.rpcUrls ?? chain.rpcUrls.default.http)])
+);
 
+// One config for the life of the page, so the connection and WalletConnect survive network changes.
+// It offers the networks known at load (restored ones only in the browser, where ssr defers
+// reconnecting until after hydration); networks registered later are offered after a reload.
 export const wagmiConfig = getDefaultConfig({
   appName: process.env.NEXT_PUBLIC_APP_NAME || 'My DApp',
   projectId,
   chains: chains,
+  transports,
   ssr: true,
   storage: createStorage({
     storage: cookieStorage,
@@ -0,0 +1,71 @@
+/**
+ * ERC20 Token Watchlist
+ *
+ * Tokens tracked by the dashboard, persisted locally per network.
+ */
+
+import { isAddress } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import type { SupportedNetwork } from './constants';
+import { getTokenInfo } from './interactions';
+import { getNetworkClient } from './provider';
+import { readStored, writeStored } from './storage';
+import type { WatchlistEntry } from './types';
+
+const watchlistKey = (network: SupportedNetwork) => `watchlist:${network}`;
+
+/**
+ * Get the watchlist for a network, in the order tokens were added
+ */
+export function getWatchlist(network: SupportedNetwork): WatchlistEntry[] {
+  return readStored<WatchlistEntry[]>(watchlistKey(network), []);
+}
+
+/**
+ * Validate a token by reading its metadata, then add it to the watchlist.
+ * Adding a token that is already watched refreshes its metadata.
+ */
+export async function addToWatchlist(
+  network: SupportedNetwork,
+  tokenAddress: string,
+  client: PublicClient | string = getNetworkClient(network)
+): Promise<WatchlistEntry> {
+  if (!isAddress(tokenAddress)) {
+    throw new Error(`Invalid token address: ${tokenAddress}`);
+  }
+
+  let info;
+  try {
+    info = await getTokenInfo(tokenAddress, client);
+  } catch {
+    throw new Error(`${tokenAddress} is not an ERC-20 token on ${network}`);
+  }
+
+  const entry: WatchlistEntry = {
+    address: tokenAddress,
+    network,
+    name: info.name,
+    symbol: info.symbol,
+    decimals: info.decimals,
+    addedAt: Date.now(),
+  };
+
+  const existing = getWatchlist(network);
+  const index = existing.findIndex((e) => e.address.toLowerCase() === tokenAddress.toLowerCase());
+  const next = index === -1
+    ? [...existing, entry]
+    : existing.map((e, i) => (i === index ? { ...entry, addedAt: e.addedAt } : e));
+  writeStored(watchlistKey(network), next);
+
+  return entry;
+}
+
+/**
+ * Remove a token from the watchlist
+ */
+export function removeFromWatchlist(network: SupportedNetwork, tokenAddress: Address): void {
+  writeStored(
+    watchlistKey(network),
+    getWatchlist(network).filter((e) => e.address.toLowerCase() !== tokenAddress.toLowerCase())
+  );
+}
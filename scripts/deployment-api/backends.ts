@@ -0,0 +1,244 @@
+/**
+ * Deployment API Backends
+ *
+ * The stages behind the deployment API. The cargo-stylus backend builds and
+ * deploys contracts/erc20 against the request's RPC endpoint (a local nitro
+ * devnode or any Stylus chain); the simulated backend invents addresses and
+ * hashes so private-key deployments can be exercised with no toolchain or
+ * chain at all.
+ */
+
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { getContractAddress, isHex, keccak256, parseEther, toHex } from 'viem';
+import type { Address, Hash, Hex } from 'viem';
+import {
+  initializeToken,
+  registerTokenInFactory,
+  privateKeySigner,
+  type DeployTokenRequest,
+  type PrepareDeploymentRequest,
+  type UnsignedStylusDeployment,
+} from '@cradle/erc20-stylus';
+
+const run = promisify(execFile);
+
+const CONTRACT_DIR = resolve(__dirname, '../../contracts/erc20');
+// Building from a cold cache takes a few minutes
+const CARGO_TIMEOUT = 10 * 60_000;
+const SIMULATED_STAGE_DELAY = 750;
+
+/**
+ * Outcome of one stage
+ */
+export interface StageOutcome {
+  txHash?: Hash;
+  output: string;
+}
+
+/**
+ * Result of the deploy stage; `activation` is set when deployment also activated the program
+ */
+export interface DeployOutcome extends StageOutcome {
+  tokenAddress: Address;
+  txHash: Hash;
+  activation?: StageOutcome;
+}
+
+export interface DeploymentBackend {
+  readonly name: 'cargo-stylus' | 'simulated';
+  deploy(request: DeployTokenRequest): Promise<DeployOutcome>;
+  activate(request: DeployTokenRequest, tokenAddress: Address): Promise<StageOutcome>;
+  initialize(request: DeployTokenRequest, tokenAddress: Address): Promise<StageOutcome>;
+  register(request: DeployTokenRequest, tokenAddress: Address, factoryAddress: Address): Promise<StageOutcome>;
+  // Unset when the backend can't build real init code for a wallet to send
+  prepare?(request: PrepareDeploymentRequest): Promise<UnsignedStylusDeployment>;
+}
+
+/**
+ * Whether `cargo stylus` is installed and the contract sources are present
+ */
+export async function isCargoStylusAvailable(): Promise<boolean> {
+  try {
+    await run('cargo', ['stylus', '--version'], { cwd: CONTRACT_DIR, timeout: 30_000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Backend that deploys contracts/erc20 with cargo stylus and sends init and
+ * registration with the request's key. The contract has no optional features,
+ * so requested features aren't passed to the build.
+ */
+export function createCargoStylusBackend(): DeploymentBackend {
+  return {
+    name: 'cargo-stylus',
+
+    async deploy(request) {
+      // The key goes through a private temp file rather than the process list
+      const output = await withKeyFile(request.privateKey, (keyPath) =>
+        cargoStylus(['deploy', '--endpoint', request.rpcEndpoint, '--private-key-path', keyPath, '--no-verify'])
+      );
+      const tokenAddress = match(output, /deployed code at address:?\s*(0x[0-9a-fA-F]{40})/i);
+      const txHash = match(output, /deployment tx hash:?\s*(0x[0-9a-fA-F]{64})/i);
+      if (!tokenAddress || !txHash) {
+        throw new Error(`cargo stylus deploy did not report a contract address and transaction hash:\n${tail(output)}`);
+      }
+      const activationHash = match(output, /activated.*?(0x[0-9a-fA-F]{64})/i);
+
+      return {
+        tokenAddress: tokenAddress as Address,
+        txHash: txHash as Hash,
+        output,
+        activation: (activationHash || /activated/i.test(output))
+          ? { txHash: activationHash as Hash | undefined, output: 'Activated by cargo stylus deploy' }
+          : undefined,
+      };
+    },
+
+    async activate(request, tokenAddress) {
+      const output = await withKeyFile(request.privateKey, (keyPath) =>
+        cargoStylus(['activate', '--address', tokenAddress, '--endpoint', request.rpcEndpoint, '--private-key-path', keyPath])
+      );
+      return { txHash: match(output, /(0x[0-9a-fA-F]{64})/) as Hash | undefined, output };
+    },
+
+    async initialize(request, tokenAddress) {
+      const { name, symbol, initialSupply, privateKey, rpcEndpoint } = request;
+      const txHash = await initializeToken(tokenAddress, name, symbol, initialSupply, privateKey, rpcEndpoint);
+      return { txHash, output: `Initialized ${name} (${symbol}) with ${initialSupply} tokens` };
+    },
+
+    async register(request, tokenAddress, factoryAddress) {
+      const { name, symbol, initialSupply, privateKey, rpcEndpoint } = request;
+      const txHash = await registerTokenInFactory(
+        tokenAddress, name, symbol, initialSupply, factoryAddress, privateKey, rpcEndpoint
+      );
+      return { txHash, output: `Registered in factory ${factoryAddress}` };
+    },
+
+    async prepare(request) {
+      const dir = await mkdtemp(join(tmpdir(), 'erc20-initcode-'));
+      try {
+        const initcodePath = join(dir, 'initcode.hex');
+        await cargoStylus(['get-initcode', '--output', initcodePath]);
+        const raw = (await readFile(initcodePath, 'utf8')).trim();
+        const data = (raw.startsWith('0x') ? raw : `0x${raw}`) as Hex;
+        if (!isHex(data)) {
+          throw new Error('cargo stylus get-initcode wrote invalid hex');
+        }
+
+        // check reports the activation data fee, already bumped for price movement
+        const check = await cargoStylus(['check', '--endpoint', request.rpcEndpoint]);
+        const fee = match(check, /data fee:?\s*([0-9.]+)\s*ETH/i);
+        if (!fee) {
+          throw new Error(`cargo stylus check did not report a data fee:\n${tail(check)}`);
+        }
+
+        return { deployTransaction: { data }, activationValue: parseEther(fee).toString() };
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Backend that sends nothing: token addresses follow the deployer's nonce
+ * sequence and hashes are derived from the request, with a short delay per
+ * stage so progress polling can be exercised. It has no prepare: wallet
+ * deployments send real transactions, which made-up init code would only
+ * get past the deploy stage before activation failed.
+ */
+export function createSimulatedBackend(): DeploymentBackend {
+  const nonces = new Map<Address, number>();
+  const fakeHash = (...parts: string[]) => keccak256(toHex(parts.join(':')));
+
+  return {
+    name: 'simulated',
+
+    async deploy(request) {
+      await sleep(SIMULATED_STAGE_DELAY);
+      const deployer = privateKeySigner(request.privateKey).address;
+      const nonce = nonces.get(deployer) ?? 0;
+      nonces.set(deployer, nonce + 1);
+      const tokenAddress = getContractAddress({ from: deployer, nonce: BigInt(nonce) });
+      const features = (request.features ?? []).join(', ') || 'all features';
+      return {
+        tokenAddress,
+        txHash: fakeHash('deploy', tokenAddress),
+        output: `Simulated deployment of ${request.symbol} (${features}) to ${tokenAddress}`,
+      };
+    },
+
+    async activate(_request, tokenAddress) {
+      await sleep(SIMULATED_STAGE_DELAY);
+      return { txHash: fakeHash('activate', tokenAddress), output: `Simulated activation of ${tokenAddress}` };
+    },
+
+    async initialize(request, tokenAddress) {
+      await sleep(SIMULATED_STAGE_DELAY);
+      return {
+        txHash: fakeHash('init', tokenAddress),
+        output: `Simulated init of ${request.name} (${request.symbol}) with ${request.initialSupply} tokens`,
+      };
+    },
+
+    async register(_request, tokenAddress, factoryAddress) {
+      await sleep(SIMULATED_STAGE_DELAY);
+      return {
+        txHash: fakeHash('register', tokenAddress, factoryAddress),
+        output: `Simulated registration in factory ${factoryAddress}`,
+      };
+    },
+  };
+}
+
+async function cargoStylus(args: string[]): Promise<string> {
+  try {
+    const { stdout, stderr } = await run('cargo', ['stylus', ...args], {
+      cwd: CONTRACT_DIR,
+      timeout: CARGO_TIMEOUT,
+      maxBuffer: 16 * 1024 * 1024,
+      env: { ...process.env, NO_COLOR: '1' },
+    });
+    return stripAnsi(`${stdout}\n${stderr}`);
+  } catch (err) {
+    const { stdout = '', stderr = '' } = err as { stdout?: string; stderr?: string };
+    const output = stripAnsi(`${stdout}\n${stderr}`).trim();
+    throw new Error(`cargo stylus ${args[0]} failed${output ? `:\n${tail(output)}` : ''}`);
+  }
+}
+
+async function withKeyFile<T>(privateKey: string, fn: (keyPath: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'erc20-deploy-'));
+  const keyPath = join(dir, 'key');
+  try {
+    await writeFile(keyPath, privateKey.replace(/^0x/, ''), { mode: 0o600 });
+    return await fn(keyPath);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function match(output: string, pattern: RegExp): string | undefined {
+  return pattern.exec(output)?.[1];
+}
+
+// Last lines of tool output, for error messages
+function tail(output: string, lines = 20): string {
+  return output.trim().split('\n').slice(-lines).join('\n');
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,338 @@
+/**
+ * Local ERC-20 Deployment API
+ *
+ * Usage: ts-node scripts/deployment-api/server.ts [--port 4000] [--host 127.0.0.1] [--mode auto|cargo|simulate]
+ *        [--allow-origin http://localhost:3000]
+ *
+ * Serves the endpoints the deployment functions call (/deploy-token,
+ * /deployments, /deployments/:id and /prepare-deployment). With cargo stylus
+ * installed it deploys contracts/erc20 for real, e.g. to a nitro devnode;
+ * otherwise it simulates every stage of private-key deployments (wallet
+ * deployments need real init code, so /prepare-deployment is unavailable).
+ *
+ * Requests carry private keys, so it only listens on 127.0.0.1 unless --host
+ * says otherwise, and browsers may only call it from the --allow-origin app.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import {
+  validateDeployTokenParams,
+  parseDeployTokenRequest,
+  parsePrepareDeploymentRequest,
+  DEPLOYMENT_PROTOCOL_HEADER,
+  DEPLOYMENT_PROTOCOL_VERSION,
+  DEPLOYMENT_STAGES,
+  DeploymentSchemaError,
+  type DeployTokenParams,
+  type DeployTokenRequest,
+  type DeployTokenResult,
+  type DeploymentProgress,
+  type DeploymentStage,
+  type DeploymentStageProgress,
+} from '@cradle/erc20-stylus';
+import {
+  createCargoStylusBackend,
+  createSimulatedBackend,
+  isCargoStylusAvailable,
+  type DeploymentBackend,
+} from './backends';
+
+const DEFAULT_PORT = 4000;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_ALLOW_ORIGIN = 'http://localhost:3000';
+const MAX_BODY_SIZE = 1024 * 1024;
+// Finished deployments stay pollable this long
+const DEPLOYMENT_TTL = 60 * 60_000;
+
+interface DeploymentEntry {
+  progress: DeploymentProgress;
+  finishedAt?: number;
+}
+
+/**
+ * A request the API rejects, with the HTTP status to answer with
+ */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const deployments = new Map<string, DeploymentEntry>();
+
+/**
+ * Run every stage for a request, recording progress on `progress` as it goes.
+ * Registration is skipped when there is no factory.
+ */
+async function runDeployment(
+  backend: DeploymentBackend,
+  request: DeployTokenRequest,
+  progress: DeploymentProgress
+): Promise<DeployTokenResult> {
+  const update = (stage: DeploymentStageProgress) => {
+    progress.stages = progress.stages.map((s) => (s.stage === stage.stage ? stage : s));
+    if (stage.status === 'running') progress.status = stage.stage;
+    console.log(`[${progress.deploymentId}] ${stage.stage}: ${stage.status}${stage.txHash ? ` ${stage.txHash}` : ''}`);
+  };
+  const runStage = async <T extends { txHash?: DeploymentStageProgress['txHash']; output: string }>(
+    stage: DeploymentStage,
+    fn: () => Promise<T>
+  ): Promise<T> => {
+    update({ stage, status: 'running' });
+    try {
+      const outcome = await fn();
+      update({ stage, status: 'complete', txHash: outcome.txHash, output: outcome.output });
+      return outcome;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      update({ stage, status: 'failed', output: error.message });
+      throw error;
+    }
+  };
+
+  try {
+    const deployed = await runStage('deploying', () => backend.deploy(request));
+    const { tokenAddress } = deployed;
+    progress.tokenAddress = tokenAddress;
+
+    if (deployed.activation) {
+      update({ stage: 'activating', status: 'complete', ...deployed.activation });
+    } else {
+      await runStage('activating', () => backend.activate(request, tokenAddress));
+    }
+    const initialized = await runStage('initializing', () => backend.initialize(request, tokenAddress));
+
+    const { factoryAddress } = request;
+    const registered = factoryAddress
+      ? await runStage('registering', () => backend.register(request, tokenAddress, factoryAddress))
+      : undefined;
+    if (!registered) {
+      update({ stage: 'registering', status: 'skipped', output: 'No factory address given' });
+    }
+
+    progress.status = 'success';
+    return {
+      tokenAddress,
+      txHash: deployed.txHash,
+      success: true,
+      deployOutput: deployed.output,
+      initOutput: initialized.output,
+      registerOutput: registered?.output,
+      stages: progress.stages,
+    };
+  } catch (err) {
+    progress.status = 'error';
+    progress.error = err instanceof Error ? err.message : String(err);
+    throw err;
+  }
+}
+
+function createProgress(): DeploymentProgress {
+  return {
+    deploymentId: randomUUID(),
+    status: 'deploying',
+    stages: DEPLOYMENT_STAGES.map((stage) => ({ stage, status: 'pending' })),
+  };
+}
+
+// Drop finished deployments nobody has polled for a while
+function pruneDeployments(): void {
+  const cutoff = Date.now() - DEPLOYMENT_TTL;
+  deployments.forEach((entry, id) => {
+    if (entry.finishedAt !== undefined && entry.finishedAt < cutoff) deployments.delete(id);
+  });
+}
+
+async function handle(
+  backend: DeploymentBackend,
+  allowOrigin: string,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  // Browsers name the page calling; any other site could otherwise drive the API with the
+  // visitor's local server. The CLI and curl send no Origin.
+  const { origin } = req.headers;
+  if (origin !== undefined) {
+    if (origin !== allowOrigin) {
+      throw new HttpError(403, `Origin ${origin} is not allowed; start the API with --allow-origin ${origin} to allow it`);
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+  }
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  // Clients that send a version must speak ours; curl and other tools may leave it out
+  const version = req.headers[DEPLOYMENT_PROTOCOL_HEADER.toLowerCase()];
+  if (version !== undefined && String(version).trim() !== String(DEPLOYMENT_PROTOCOL_VERSION)) {
+    throw new HttpError(400, `This API speaks protocol version ${DEPLOYMENT_PROTOCOL_VERSION}, the client sent version ${version}`);
+  }
+
+  if (req.method === 'GET' && pathname === '/health') {
+    send(res, 200, { status: 'ok', backend: backend.name });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/deploy-token') {
+    const request = parseRequest(await readJson(req), parseDeployTokenRequest);
+    const result = await runDeployment(backend, request, createProgress());
+    send(res, 200, result);
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/deployments') {
+    const request = parseRequest(await readJson(req), parseDeployTokenRequest);
+    pruneDeployments();
+    const entry: DeploymentEntry = { progress: createProgress() };
+    deployments.set(entry.progress.deploymentId, entry);
+    // Failures are reported through progress polling
+    runDeployment(backend, request, entry.progress)
+      .catch(() => undefined)
+      .finally(() => {
+        entry.finishedAt = Date.now();
+      });
+    send(res, 202, { deploymentId: entry.progress.deploymentId });
+    return;
+  }
+
+  const deploymentMatch = /^\/deployments\/([^/]+)$/.exec(pathname);
+  if (req.method === 'GET' && deploymentMatch) {
+    const entry = deployments.get(decodeURIComponent(deploymentMatch[1]));
+    if (!entry) {
+      throw new HttpError(404, `Unknown deployment ${deploymentMatch[1]}`);
+    }
+    send(res, 200, entry.progress);
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/prepare-deployment') {
+    if (!backend.prepare) {
+      throw new HttpError(501, `The ${backend.name} backend can't prepare wallet deployments; run the API with cargo stylus installed`);
+    }
+    const request = parseRequest(await readJson(req), parsePrepareDeploymentRequest);
+    send(res, 200, await backend.prepare(request));
+    return;
+  }
+
+  throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+}
+
+// Check the shape with the shared schema, then the token parameters themselves
+function parseRequest<T extends DeployTokenParams>(body: unknown, parse: (body: unknown) => T): T {
+  let request: T;
+  try {
+    request = parse(body);
+  } catch (err) {
+    if (err instanceof DeploymentSchemaError) throw new HttpError(400, err.message);
+    throw err;
+  }
+  const errors = validateDeployTokenParams(request);
+  if (errors.length > 0) {
+    throw new HttpError(400, errors.map((error) => error.message).join('; '));
+  }
+  return request;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  // The /deploy page calls the API straight from the browser; handle() allows its origin
+  res.writeHead(status, {
+    Vary: 'Origin',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, ${DEPLOYMENT_PROTOCOL_HEADER}`,
+    // Browser clients check the version before reading the body
+    'Access-Control-Expose-Headers': DEPLOYMENT_PROTOCOL_HEADER,
+    [DEPLOYMENT_PROTOCOL_HEADER]: String(DEPLOYMENT_PROTOCOL_VERSION),
+    ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+  });
+  res.end(body !== undefined ? JSON.stringify(body) : undefined);
+}
+
+async function selectBackend(mode: string): Promise<DeploymentBackend> {
+  if (mode === 'simulate') return createSimulatedBackend();
+  const available = await isCargoStylusAvailable();
+  if (mode === 'cargo') {
+    if (!available) {
+      throw new Error('cargo stylus is not installed; install it with `cargo install cargo-stylus` or use --mode simulate');
+    }
+    return createCargoStylusBackend();
+  }
+  if (mode !== 'auto') {
+    throw new Error(`Unknown mode "${mode}"; expected auto, cargo or simulate`);
+  }
+  return available ? createCargoStylusBackend() : createSimulatedBackend();
+}
+
+// Origins as browsers send them: scheme, host and port, without a path or trailing slash
+function parseOrigin(value: string): string {
+  try {
+    return new URL(value).origin;
+  } catch {
+    throw new Error(`Invalid --allow-origin: ${value}`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      mode: { type: 'string' },
+      'allow-origin': { type: 'string' },
+    },
+  });
+  const port = Number(values.port ?? process.env.PORT ?? DEFAULT_PORT);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port ?? process.env.PORT}`);
+  }
+  const host = values.host ?? process.env.DEPLOYMENT_API_HOST ?? DEFAULT_HOST;
+  const allowOrigin = parseOrigin(values['allow-origin'] ?? process.env.DEPLOYMENT_API_ALLOW_ORIGIN ?? DEFAULT_ALLOW_ORIGIN);
+  const backend = await selectBackend(values.mode ?? process.env.DEPLOYMENT_API_MODE ?? 'auto');
+
+  const server = createServer((req, res) => {
+    handle(backend, allowOrigin, req, res).catch((err) => {
+      const status = err instanceof HttpError ? err.status : 500;
+      const message = err instanceof Error ? err.message : String(err);
+      if (status === 500) console.error(`${req.method} ${req.url} failed:`, message);
+      send(res, status, { error: message });
+    });
+  });
+
+  server.listen(port, host, () => {
+    console.log(`Deployment API listening on http://${host.includes(':') ? `[${host}]` : host}:${port} (${backend.name})`);
+    console.log(`Accepting browser requests from ${allowOrigin}`);
+  });
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
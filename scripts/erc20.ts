@@ -0,0 +1,602 @@
+/**
+ * ERC-20 Token CLI
+ *
+ * Usage: ts-node scripts/erc20.ts <command> [arguments] [options]
+ *
+ * Run with --help for the command list. Options fall back to environment
+ * variables, so a configured .env covers most of them.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { formatEther, isAddress, zeroAddress } from 'viem';
+import type { Address, Hash, PrivateKeyAccount, PublicClient } from 'viem';
+import {
+  deployERC20TokenStaged,
+  validateDeployTokenParams,
+  getTokenInfo,
+  getBalance,
+  getAllowance,
+  transfer,
+  mint,
+  burn,
+  pause,
+  unpause,
+  transferOwnership,
+  safeApprove,
+  estimateTransfer,
+  estimateMint,
+  estimateBurn,
+  estimatePause,
+  estimateUnpause,
+  estimateApprove,
+  estimateTokenWrite,
+  getTransferHistory,
+  findDeploymentBlock,
+  formatTokenAmount,
+  getNetwork,
+  getNetworkClient,
+  getPublicClient,
+  getRpcEndpoint,
+  getExplorerUrl,
+  privateKeySigner,
+  keystoreSigner,
+  TokenContractError,
+  UnsupportedNetworkError,
+  type DeployTokenParams,
+  type FeeEstimate,
+  type SupportedNetwork,
+  type TokenFeature,
+} from '@cradle/erc20-stylus';
+
+const DEFAULT_NETWORK = 'arbitrum-sepolia';
+const DEFAULT_API_URL = 'http://localhost:4000';
+const DEFAULT_HOLDERS_LIMIT = 20;
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const OPTIONS = {
+  network: { type: 'string' },
+  rpc: { type: 'string' },
+  token: { type: 'string' },
+  'private-key': { type: 'string' },
+  keystore: { type: 'string' },
+  password: { type: 'string' },
+  'api-url': { type: 'string' },
+  name: { type: 'string' },
+  symbol: { type: 'string' },
+  supply: { type: 'string' },
+  features: { type: 'string' },
+  factory: { type: 'string' },
+  owner: { type: 'string' },
+  set: { type: 'string' },
+  'from-block': { type: 'string' },
+  limit: { type: 'string' },
+  json: { type: 'boolean' },
+  'dry-run': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+type Result = Record<string, unknown>;
+
+interface Context {
+  network: SupportedNetwork;
+  flags: Flags;
+  args: string[];
+  // Public client for the network, or for --rpc once its chain is checked
+  client: () => Promise<PublicClient>;
+}
+
+/**
+ * One of several transactions a write sends, as a dry run reports it
+ */
+interface PlannedTransaction {
+  description: string;
+  fee: FeeEstimate;
+}
+
+interface Command {
+  usage: string;
+  summary: string;
+  run: (ctx: Context) => Promise<Result>;
+}
+
+/**
+ * Bad arguments or missing configuration; exits with EXIT_USAGE
+ * (as does an unknown network)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const COMMANDS: Record<string, Command> = {
+  deploy: {
+    usage: 'deploy --name <name> --symbol <symbol> --supply <amount> [--features a,b] [--factory <address>]',
+    summary: 'Deploy a token through the deployment API',
+    run: deployCommand,
+  },
+  info: {
+    usage: 'info',
+    summary: 'Show name, symbol, supply, owner and paused state',
+    run: async (ctx) => {
+      const info = await getTokenInfo(requireToken(ctx), await ctx.client());
+      return {
+        address: info.address,
+        name: info.name,
+        symbol: info.symbol,
+        decimals: info.decimals,
+        totalSupply: info.formattedTotalSupply,
+        owner: info.owner,
+        paused: info.paused,
+      };
+    },
+  },
+  balance: {
+    usage: 'balance [address]',
+    summary: 'Show the balance of an address (the signer by default)',
+    run: async (ctx) => {
+      const account = ctx.args[0] !== undefined
+        ? requireAddress(ctx.args[0], 'address')
+        : (await requireSigner(ctx.flags)).address;
+      const { balance, formatted } = await getBalance(requireToken(ctx), account, await ctx.client());
+      return { account, balance: formatted, raw: balance };
+    },
+  },
+  transfer: {
+    usage: 'transfer <to> <amount>',
+    summary: 'Transfer tokens from the signer',
+    run: (ctx) => {
+      const token = requireToken(ctx);
+      const to = requireAddress(ctx.args[0], 'to');
+      const amount = requireAmount(ctx.args[1]);
+      return write(ctx, {
+        estimate: (from, client) => estimateTransfer(token, to, amount, from, client),
+        send: (signer, client) => transfer(token, to, amount, signer, client),
+      });
+    },
+  },
+  mint: {
+    usage: 'mint <to> <amount>',
+    summary: 'Mint tokens (owner only)',
+    run: (ctx) => {
+      const token = requireToken(ctx);
+      const to = requireAddress(ctx.args[0], 'to');
+      const amount = requireAmount(ctx.args[1]);
+      return write(ctx, {
+        estimate: (from, client) => estimateMint(token, to, amount, from, client),
+        send: (signer, client) => mint(token, to, amount, signer, client),
+      });
+    },
+  },
+  burn: {
+    usage: 'burn <amount>',
+    summary: "Burn the signer's tokens",
+    run: (ctx) => {
+      const token = requireToken(ctx);
+      const amount = requireAmount(ctx.args[0]);
+      return write(ctx, {
+        estimate: (from, client) => estimateBurn(token, amount, from, client),
+        send: (signer, client) => burn(token, amount, signer, client),
+      });
+    },
+  },
+  pause: {
+    usage: 'pause',
+    summary: 'Pause transfers (owner only)',
+    run: (ctx) => {
+      const token = requireToken(ctx);
+      return write(ctx, {
+        estimate: (from, client) => estimatePause(token, from, client),
+        send: (signer, client) => pause(token, signer, client),
+      });
+    },
+  },
+  unpause: {
+    usage: 'unpause',
+    summary: 'Resume transfers (owner only)',
+    run: (ctx) => {
+      const token = requireToken(ctx);
+      return write(ctx, {
+        estimate: (from, client) => estimateUnpause(token, from, client),
+        send: (signer, client) => unpause(token, signer, client),
+      });
+    },
+  },
+  'transfer-ownership': {
+    usage: 'transfer-ownership <new-owner>',
+    summary: 'Hand the token to a new owner (owner only)',
+    run: (ctx) => {
+      const token = requireToken(ctx);
+      const newOwner = requireAddress(ctx.args[0], 'new-owner');
+      return write(ctx, {
+        estimate: (from, client) => estimateTokenWrite(token, 'transferOwnership', [newOwner], from, client),
+        send: (signer, client) => transferOwnership(token, newOwner, signer, client),
+      });
+    },
+  },
+  allowance: {
+    usage: 'allowance <spender> [--owner <address>] [--set <amount>]',
+    summary: "Show a spender's allowance, or approve a new one with --set",
+    run: async (ctx) => {
+      const token = requireToken(ctx);
+      const spender = requireAddress(ctx.args[0], 'spender');
+      if (ctx.flags.set !== undefined) {
+        if (ctx.flags.owner !== undefined) {
+          throw new UsageError('--owner cannot be combined with --set; the signer approves');
+        }
+        const amount = requireAmount(ctx.flags.set);
+        return write(ctx, {
+          estimate: async (from, client) => {
+            const approval = await estimateApprove(token, spender, amount, from, client);
+            // safeApprove resets a non-zero allowance to 0 before setting a new non-zero one
+            const { allowance: current } = await getAllowance(token, from, spender, client);
+            if (current === BigInt(0) || Number(amount) === 0) return approval;
+            return [
+              { description: 'Reset allowance to 0', fee: await estimateApprove(token, spender, '0', from, client) },
+              { description: `Approve ${amount}`, fee: approval },
+            ];
+          },
+          send: (signer, client) => safeApprove(token, spender, amount, signer, client),
+        });
+      }
+      const owner = ctx.flags.owner !== undefined
+        ? requireAddress(ctx.flags.owner, 'owner')
+        : (await requireSigner(ctx.flags)).address;
+      const { allowance, formatted } = await getAllowance(token, owner, spender, await ctx.client());
+      return { owner, spender, allowance: formatted, raw: allowance };
+    },
+  },
+  holders: {
+    usage: 'holders [--limit <n>] [--from-block <block>]',
+    summary: "List the largest holders, rebuilt from Transfer events since the token's deployment block",
+    run: holdersCommand,
+  },
+};
+
+async function deployCommand(ctx: Context): Promise<Result> {
+  const { flags, network } = ctx;
+  const params: DeployTokenParams = {
+    name: requireFlag(flags.name, '--name'),
+    symbol: requireFlag(flags.symbol, '--symbol'),
+    initialSupply: requireFlag(flags.supply, '--supply'),
+    features: flags.features !== undefined
+      ? flags.features.split(',').map((feature) => feature.trim()).filter(Boolean) as TokenFeature[]
+      : undefined,
+    factoryAddress: flags.factory !== undefined
+      ? requireAddress(flags.factory, '--factory')
+      : getNetwork(network).factoryAddress,
+  };
+
+  const errors = validateDeployTokenParams(params);
+  if (errors.length > 0) {
+    throw new UsageError(errors.map((error) => error.message).join('\n'));
+  }
+
+  // The deployment API signs with the raw key, so keystores can't be used here
+  const privateKey = flags['private-key'] ?? process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    throw new UsageError('deploy requires PRIVATE_KEY (or --private-key)');
+  }
+  const deployer = privateKeySigner(privateKey).address;
+  const rpcEndpoint = flags.rpc ?? process.env.RPC_ENDPOINT ?? getRpcEndpoint(network);
+  const deploymentApiUrl = flags['api-url'] ?? process.env.ERC20_DEPLOYMENT_API_URL ?? DEFAULT_API_URL;
+
+  const plan = {
+    network,
+    deployer,
+    name: params.name,
+    symbol: params.symbol,
+    initialSupply: params.initialSupply,
+    features: (params.features ?? []).join(', ') || 'all',
+    factory: params.factoryAddress ?? 'none',
+  };
+  // Deployment runs cargo-stylus behind the API, so a dry run can only validate
+  if (flags['dry-run']) {
+    return { dryRun: true, ...plan, deploymentApi: deploymentApiUrl };
+  }
+
+  const reported = new Set<string>();
+  const result = await deployERC20TokenStaged(
+    { ...params, privateKey, rpcEndpoint, deploymentApiUrl },
+    {
+      onProgress: (progress) => {
+        for (const stage of progress.stages) {
+          const key = `${stage.stage}:${stage.status}`;
+          if (reported.has(key) || stage.status === 'pending') continue;
+          reported.add(key);
+          log(flags, `${stage.stage}: ${stage.status}${stage.txHash ? ` (${stage.txHash})` : ''}`);
+        }
+      },
+    }
+  );
+
+  return {
+    ...plan,
+    tokenAddress: result.tokenAddress,
+    txHash: result.txHash,
+    env: `NEXT_PUBLIC_TOKEN_ADDRESS=${result.tokenAddress}`,
+  };
+}
+
+async function holdersCommand(ctx: Context): Promise<Result> {
+  const token = requireToken(ctx);
+  const limit = parseInteger(ctx.flags.limit, '--limit') ?? DEFAULT_HOLDERS_LIMIT;
+  const startBlock = parseInteger(ctx.flags['from-block'], '--from-block');
+  const client = await ctx.client();
+  // Balances only add up from the deployment block; a later --from-block gives partial ones
+  const fromBlock = startBlock !== undefined ? BigInt(startBlock) : await findDeploymentBlock(token, client);
+
+  const [info, events] = await Promise.all([
+    getTokenInfo(token, client),
+    getTransferHistory(token, client, { fromBlock }),
+  ]);
+
+  // Replaying every Transfer since deployment gives each balance
+  const balances = new Map<Address, bigint>();
+  for (const { from, to, value } of events) {
+    if (from !== zeroAddress) balances.set(from, (balances.get(from) ?? BigInt(0)) - value);
+    if (to !== zeroAddress) balances.set(to, (balances.get(to) ?? BigInt(0)) + value);
+  }
+
+  const holders = Array.from(balances.entries())
+    .filter(([, balance]) => balance > BigInt(0))
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0));
+
+  return {
+    token,
+    fromBlock,
+    holderCount: holders.length,
+    holders: holders.slice(0, limit).map(([address, balance]) => ({
+      address,
+      balance: formatTokenAmount(balance, info.decimals),
+      share: info.totalSupply > BigInt(0)
+        ? `${(Number((balance * BigInt(10000)) / info.totalSupply) / 100).toFixed(2)}%`
+        : '0.00%',
+    })),
+  };
+}
+
+/**
+ * Send a write, or with --dry-run simulate it and report the estimated fee
+ */
+async function write(
+  ctx: Context,
+  handlers: {
+    // Several transactions when the write takes more than one
+    estimate: (from: Address, client: PublicClient) => Promise<FeeEstimate | PlannedTransaction[]>;
+    send: (signer: PrivateKeyAccount, client: PublicClient) => Promise<Hash>;
+  }
+): Promise<Result> {
+  const signer = await requireSigner(ctx.flags);
+  const client = await ctx.client();
+
+  if (ctx.flags['dry-run']) {
+    const estimate = await handlers.estimate(signer.address, client);
+    if (!Array.isArray(estimate)) {
+      return {
+        dryRun: true,
+        from: signer.address,
+        gasLimit: estimate.gasLimit,
+        estimatedFee: `${estimate.formattedTotalFee} ETH`,
+      };
+    }
+    return {
+      dryRun: true,
+      from: signer.address,
+      transactions: estimate.map(({ description, fee }) => ({
+        description,
+        gasLimit: fee.gasLimit,
+        estimatedFee: `${fee.formattedTotalFee} ETH`,
+      })),
+      gasLimit: estimate.reduce((sum, { fee }) => sum + fee.gasLimit, BigInt(0)),
+      estimatedFee: `${formatEther(estimate.reduce((sum, { fee }) => sum + fee.totalFee, BigInt(0)))} ETH`,
+    };
+  }
+
+  const txHash = await handlers.send(signer, client);
+  const explorerUrl = getExplorerUrl(ctx.network);
+  return {
+    from: signer.address,
+    txHash,
+    ...(explorerUrl ? { explorer: `${explorerUrl}/tx/${txHash}` } : {}),
+  };
+}
+
+async function requireSigner(flags: Flags): Promise<PrivateKeyAccount> {
+  const keystore = flags.keystore ?? process.env.KEYSTORE_PATH;
+  if (keystore) {
+    const password = flags.password ?? process.env.KEYSTORE_PASSWORD;
+    if (password === undefined) {
+      throw new UsageError('A keystore needs KEYSTORE_PASSWORD (or --password)');
+    }
+    return keystoreSigner(readFileSync(keystore, 'utf8'), password);
+  }
+
+  const privateKey = flags['private-key'] ?? process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    throw new UsageError('A signer is required: set PRIVATE_KEY or KEYSTORE_PATH (or pass --private-key / --keystore)');
+  }
+  return privateKeySigner(privateKey);
+}
+
+function requireToken(ctx: Context): Address {
+  const token = ctx.flags.token ?? process.env.NEXT_PUBLIC_TOKEN_ADDRESS;
+  if (!token) {
+    throw new UsageError('A token is required: set NEXT_PUBLIC_TOKEN_ADDRESS or pass --token');
+  }
+  return requireAddress(token, '--token');
+}
+
+function requireAddress(value: string | undefined, label: string): Address {
+  if (value === undefined) {
+    throw new UsageError(`Missing <${label}>`);
+  }
+  if (!isAddress(value)) {
+    throw new UsageError(`${label} is not a valid address: ${value}`);
+  }
+  return value;
+}
+
+function requireAmount(value: string | undefined): string {
+  if (value === undefined) {
+    throw new UsageError('Missing <amount>');
+  }
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new UsageError(`Amount must be a positive decimal number: ${value}`);
+  }
+  return value;
+}
+
+function requireFlag(value: string | undefined, flag: string): string {
+  if (value === undefined || value.trim() === '') {
+    throw new UsageError(`${flag} is required`);
+  }
+  return value.trim();
+}
+
+function parseInteger(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`${flag} must be a non-negative integer: ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * The network's failover client, or the --rpc / RPC_ENDPOINT endpoint after
+ * checking it serves the selected network
+ */
+function createClientResolver(network: SupportedNetwork, rpc: string | undefined): () => Promise<PublicClient> {
+  let pending: Promise<PublicClient> | undefined;
+  return () => {
+    pending ??= (async () => {
+      if (!rpc) return getNetworkClient(network);
+      const client = getPublicClient(rpc);
+      const { chainId } = getNetwork(network);
+      const actual = await client.getChainId();
+      if (actual !== chainId) {
+        throw new UsageError(`${rpc} serves chain ${actual}, not ${network} (chain ${chainId})`);
+      }
+      return client;
+    })();
+    return pending;
+  };
+}
+
+function usage(): string {
+  const commands = Object.values(COMMANDS)
+    .map((command) => `  ${command.usage}\n      ${command.summary}`)
+    .join('\n');
+  return `Usage: erc20 <command> [arguments] [options]
+
+Commands:
+${commands}
+
+Options:
+  --network <name>       Network (NETWORK, default ${DEFAULT_NETWORK})
+  --rpc <url>            RPC endpoint instead of the network's (RPC_ENDPOINT)
+  --token <address>      Token contract (NEXT_PUBLIC_TOKEN_ADDRESS)
+  --private-key <key>    Signer key (PRIVATE_KEY; prefer the variable, flags show up in ps)
+  --keystore <path>      Encrypted JSON keystore (KEYSTORE_PATH)
+  --password <password>  Keystore password (KEYSTORE_PASSWORD)
+  --api-url <url>        Deployment API (ERC20_DEPLOYMENT_API_URL, default ${DEFAULT_API_URL})
+  --dry-run              Simulate writes and report the fee without sending
+  --json                 Print results and errors as JSON
+  -h, --help             Show this help
+
+Exit codes: 0 success, ${EXIT_FAILURE} failure, ${EXIT_USAGE} bad arguments or configuration`;
+}
+
+// Progress goes to stderr so stdout stays clean for --json
+function log(flags: Flags, message: string): void {
+  if (!flags.json) console.error(message);
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+function printResult(result: Result, json: boolean): void {
+  if (json) {
+    console.log(toJson(result));
+    return;
+  }
+  const width = Math.max(...Object.keys(result).map((key) => label(key).length));
+  for (const [key, value] of Object.entries(result)) {
+    if (Array.isArray(value)) {
+      console.log(`${label(key)}:`);
+      value.forEach((item) => console.log(`  ${Object.values(item as object).join('  ')}`));
+    } else {
+      console.log(`${label(key).padEnd(width)}  ${String(value)}`);
+    }
+  }
+}
+
+function printError(err: unknown, json: boolean): void {
+  const error = err instanceof Error ? err : new Error(String(err));
+  if (json) {
+    console.log(toJson({
+      error: {
+        name: error.name,
+        message: error.message,
+        ...(error instanceof TokenContractError ? { reason: error.reason } : {}),
+      },
+    }));
+    return;
+  }
+  console.error(`Error: ${error.message}`);
+  if (error instanceof UsageError || error instanceof UnsupportedNetworkError) {
+    console.error('Run with --help for usage.');
+  }
+}
+
+// camelCase key to a sentence-case label
+function label(key: string): string {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (err) {
+    printError(new UsageError(err instanceof Error ? err.message : String(err)), process.argv.includes('--json'));
+    return EXIT_USAGE;
+  }
+
+  const { values: flags, positionals } = parsed;
+  const [name, ...args] = positionals;
+  if (flags.help || !name) {
+    console.log(usage());
+    return flags.help ? 0 : EXIT_USAGE;
+  }
+
+  try {
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command "${name}"`);
+    }
+    const network = flags.network ?? process.env.NETWORK ?? DEFAULT_NETWORK;
+    // Throws UnsupportedNetworkError for unknown names before anything is sent
+    getNetwork(network);
+    const rpc = flags.rpc ?? process.env.RPC_ENDPOINT;
+
+    const result = await command.run({ network, flags, args, client: createClientResolver(network, rpc) });
+    printResult(result, !!flags.json);
+    return 0;
+  } catch (err) {
+    printError(err, !!flags.json);
+    return err instanceof UsageError || err instanceof UnsupportedNetworkError ? EXIT_USAGE : EXIT_FAILURE;
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+});